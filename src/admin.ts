@@ -0,0 +1,121 @@
+import { timingSafeEqual } from 'crypto';
+import type { SimpleRtmpStreamingApp } from './app';
+import { WebhookValidationError } from './webhooks';
+import { logger } from './logger';
+
+/**
+ * Checks an operator token against ADMIN_TOKEN without leaking timing information
+ * @param provided - Token sent by the client
+ * @param expected - Configured admin token
+ */
+function tokenMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Sets up the operator-only dashboard and API.
+ * Every /admin/api route requires `Authorization: Bearer <ADMIN_TOKEN>`; the routes are disabled if ADMIN_TOKEN is unset.
+ * @param exampleApp The app whose Express server gets the routes
+ */
+export function setupAdminRoutes(exampleApp: SimpleRtmpStreamingApp): void {
+  const app = exampleApp.getExpressApp();
+  const adminToken = exampleApp.getAppConfig().adminToken;
+
+  if (!adminToken) {
+    logger.info('ADMIN_TOKEN is not set, admin dashboard is disabled');
+  }
+
+  // Middleware guarding the admin API with the operator token
+  const requireAdmin = (req: any, res: any, next: any) => {
+    if (!adminToken) {
+      return res.status(503).json({ success: false, message: 'Admin dashboard is disabled.' });
+    }
+    const header = req.headers['authorization'] || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token || !tokenMatches(token, adminToken)) {
+      return res.status(401).json({ success: false, message: 'Invalid admin token.' });
+    }
+    // Operators identify themselves for the audit trail; the shared token alone cannot tell them apart
+    req.operator = String(req.headers['x-operator-name'] || 'admin').slice(0, 100);
+    next();
+  };
+
+  // Dashboard page; it holds no data itself and calls the admin API with the token the operator enters
+  app.get('/admin', (req: any, res: any) => {
+    res.render('admin', { enabled: !!adminToken });
+  });
+
+  // API endpoint listing all active sessions
+  app.get('/admin/api/sessions', requireAdmin, (req: any, res: any) => {
+    const sessions = exampleApp.getActiveSessionSummaries();
+    res.json({ success: true, count: sessions.length, sessions: sessions });
+  });
+
+  // API endpoint to force-stop a user's unmanaged or managed stream, on one session or the user's most recently connected one
+  app.post('/admin/api/sessions/:userId/stop', requireAdmin, async (req: any, res: any) => {
+    const { mode, sessionId } = req.body;
+    if (mode !== 'unmanaged' && mode !== 'managed') {
+      return res.status(400).json({ success: false, message: 'mode must be "unmanaged" or "managed".' });
+    }
+    if (sessionId !== undefined && typeof sessionId !== 'string') {
+      return res.status(400).json({ success: false, message: 'sessionId must be a string.' });
+    }
+    if (!exampleApp.hasActiveSession(req.params.userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
+    try {
+      const audit = await exampleApp.forceStopStreamForUser(req.operator, req.params.userId, mode, sessionId);
+      res.json({ success: true, message: `Force-stop of ${mode} stream requested.`, audit: audit });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message || 'Failed to stop stream.' });
+    }
+  });
+
+  // API endpoint listing the audit trail of operator actions
+  app.get('/admin/api/audit', requireAdmin, (req: any, res: any) => {
+    const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500);
+    res.json({ success: true, entries: exampleApp.getAuditLog(limit) });
+  });
+
+  // API endpoint listing operator webhooks, which receive events for every user
+  app.get('/admin/api/webhooks', requireAdmin, (req: any, res: any) => {
+    res.json({ success: true, webhooks: exampleApp.getWebhooks(null), deliveries: exampleApp.getWebhookDeliveries(null, 100) });
+  });
+
+  // API endpoint to register an operator webhook; the response holds the signing secret, which is not shown again
+  app.post('/admin/api/webhooks', requireAdmin, (req: any, res: any) => {
+    try {
+      const webhook = exampleApp.createOperatorWebhook(req.operator, req.body);
+      res.json({ success: true, message: 'Webhook registered. Store the secret now, it will not be shown again.', webhook: webhook });
+    } catch (error: any) {
+      if (error instanceof WebhookValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to register webhook.' });
+    }
+  });
+
+  // API endpoint to delete an operator webhook
+  app.delete('/admin/api/webhooks/:webhookId', requireAdmin, (req: any, res: any) => {
+    if (!exampleApp.deleteOperatorWebhook(req.operator, req.params.webhookId)) {
+      return res.status(404).json({ success: false, message: 'Webhook not found.' });
+    }
+    res.json({ success: true, message: 'Webhook deleted.' });
+  });
+
+  // API endpoint to send a test payload to an operator webhook
+  app.post('/admin/api/webhooks/:webhookId/test', requireAdmin, async (req: any, res: any) => {
+    try {
+      const delivery = await exampleApp.testWebhook(null, req.params.webhookId);
+      if (!delivery) {
+        return res.status(404).json({ success: false, message: 'Webhook not found.' });
+      }
+      const delivered = delivery.status === 'delivered';
+      res.json({ success: delivered, message: delivered ? 'Test delivered.' : `Test failed: ${delivery.error}`, delivery: delivery });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message || 'Failed to send test.' });
+    }
+  });
+}
@@ -0,0 +1,2449 @@
+import { RtmpStreamStatus, GlassesToCloudMessageType, CloudToAppMessageType, AppServer, ManagedStreamStatus } from '@mentra/sdk';
+import { AppConfig } from './config';
+import { SessionFactory, StreamingSession } from './streaming-session';
+import { setupExpressRoutes } from './webview';
+import { setupAdminRoutes } from './admin';
+import { setupViewerRoutes } from './viewer';
+import { setupMonitoringRoutes } from './monitoring';
+import { Counter, Gauge, Histogram, MetricsRegistry, START_LATENCY_BUCKETS, STREAM_DURATION_BUCKETS, categorizeStreamError } from './metrics';
+import { LogContext, Logger, logger, redactSecrets } from './logger';
+import { AuditEntry, AuditLog, createAuditLog } from './audit-log';
+import { EncodingProfile, BUILT_IN_ENCODING_PROFILES, DEFAULT_ENCODING_PROFILE_ID, InvalidEncodingProfileError, createCustomEncodingProfile, findEncodingProfile, validateEncodingProfile } from './encoding-profiles';
+import { AutoStartPolicy, AUTO_START_POLICIES, evaluateAutoStart, describeDestination } from './auto-start';
+import { DestinationNotFoundError, RtmpDestination, MAX_DESTINATIONS_PER_USER, createDestination, maskRtmpUrl } from './destinations';
+import { parseRtmpUrl } from './rtmp-url';
+import { RtmpProbeResult, probeRtmpDestination } from './rtmp-probe';
+import { RetryPolicy, RetryState, createRetryState, computeRetryDelay, getGiveUpReason, validateRetryPolicy } from './retry-policy';
+import { StreamHistory, StreamHistoryPage, StreamMode, createStreamHistory } from './stream-history';
+import { StreamEventHub, StreamEventListener } from './stream-events';
+import { StreamWindow, InvalidStreamWindowError, MAX_STREAM_WINDOWS_PER_USER, createStreamWindow, getStreamWindowEnd, validateStreamWindow } from './stream-schedule';
+import { GlassesCommand, GlassesCommandSource, GlassesControlSettings, HeadGestureDetector, findDestinationByName, parseVoiceCommand } from './glasses-commands';
+import { BatteryPolicy, BatteryPolicyState, BatteryStatus, BatteryAction, createBatteryPolicyState, evaluateBatteryPolicy, validateBatteryPolicy } from './battery-policy';
+import { StreamStateMachine, StreamPhase, StreamTransition, phaseForStreamStatus, phaseForManagedStreamStatus } from './stream-state-machine';
+import { DEFAULT_STREAM_HEALTH_THRESHOLDS, StreamHealthReport, StreamStatsSample, StreamStatsSeries, evaluateStreamHealth, isHealthWorse } from './stream-stats';
+import { ShareLinkStore, ShareLinkSummary, createShareLinkStore } from './share-links';
+import { HostResolver, WebhookDelivery, WebhookDispatcher, WebhookEndpoint, WebhookStore, WebhookSummary, WebhookValidationError, createWebhookStore, validateWebhookInput, webhookEventForTransition } from './webhooks';
+import { SettingsStore, UserPersistentSettings, createSettingsStore, createDefaultSettings } from './settings-store';
+import { RECORDING_MODES, RecordingMode, RecordingRetention, RecordingStore, RecordingSummary, createRecordingStore } from './recordings';
+import { RecordingRelay, RelayConnection, createRecordingRelay } from './recording-relay';
+
+// How often scheduled stream windows are checked
+const STREAM_SCHEDULER_INTERVAL_MS = 10000;
+// Finished windows kept per user so the webview can show what happened
+const MAX_FINISHED_STREAM_WINDOWS = 20;
+// How often live streams are re-checked, so a stream that stops reporting stats is marked failing
+const STREAM_HEALTH_CHECK_INTERVAL_MS = 5000;
+// Minimum time between two stream health warnings on the glasses
+const STREAM_HEALTH_WARNING_COOLDOWN_MS = 60000;
+// How often recordings past the retention limits are deleted, besides after every finished recording
+const RECORDING_RETENTION_INTERVAL_MS = 15 * 60 * 1000;
+
+// The recording of a user's current unmanaged stream session
+interface ActiveRecording {
+  recordingId: string;
+  // Destination the relay re-pushes to, null when only recording
+  forwardUrl: string | null;
+  // Relay the glasses currently publish to; a retry opens a new one for the same recording
+  relay: RelayConnection | null;
+}
+
+// Interface for per-session stream state; a user connected from several devices has one per session
+interface UserStreamState {
+  sessionId: string;
+  userId: string;
+  rtmpUrl: string;
+  destinationId: string | null;
+  encodingProfileId: string | null;
+  // Whether the user wants the unmanaged stream running; automatic retries only happen while this is true
+  streamWanted: boolean;
+  retry: RetryState;
+  // Phases of both streams; the status fields below hold the latest SDK reports for display
+  machine: StreamStateMachine;
+  streamStatus: RtmpStreamStatus;
+  managedStreamStatus: ManagedStreamStatus | null;
+  session: StreamingSession;
+  connectedAt: Date;
+  battery: BatteryStatus | null;
+  batteryPolicyState: BatteryPolicyState;
+  // When the pending start of each stream was requested and when each went live, for metrics
+  startRequestedAt: Record<StreamMode, number | null>;
+  liveSince: Record<StreamMode, number | null>;
+  // Stats reported with unmanaged stream status updates and the health computed from them
+  stats: StreamStatsSeries;
+  streamHealth: StreamHealthReport | null;
+  lastHealthWarningAt: number | null;
+  recording: ActiveRecording | null;
+  // Remove the event handlers the session registered
+  cleanup: (() => unknown)[];
+}
+
+// Recent stats of a user's unmanaged stream for the webview chart
+export interface StreamStatsView {
+  samples: StreamStatsSample[];
+  health: StreamHealthReport | null;
+  target: { bitrate: number; frameRate: number };
+}
+
+// What operators see about one connected glasses session on the admin dashboard
+export interface ActiveSessionSummary {
+  userId: string;
+  sessionId: string;
+  streamMode: 'none' | 'unmanaged' | 'managed' | 'both';
+  unmanagedStatus: string;
+  managedStatus: string | null;
+  destinationHost: string | null;
+  uptimeMs: number;
+  lastStatusAt: Date | null;
+}
+
+// One of a user's connected glasses sessions, as listed in the webview
+export interface UserSessionSummary {
+  sessionId: string;
+  connectedAt: Date;
+  // The most recently connected session, which requests without a session ID act on
+  primary: boolean;
+  streamState: Record<StreamMode, StreamPhase>;
+  battery: BatteryStatus | null;
+}
+
+// What a public viewer learns about a shared managed stream; never includes the owner's user ID
+export interface SharedStreamView {
+  label: string;
+  live: boolean;
+  status: string;
+  hlsUrl: string | null;
+  dashUrl: string | null;
+  webrtcUrl: string | null;
+}
+
+// Options for starting an unmanaged stream; an explicit rtmpUrl wins over destinationId
+export interface StartStreamOptions {
+  rtmpUrl?: string;
+  destinationId?: string;
+  encodingProfileId?: string;
+  // Recorded in stream history, e.g. "webview" or "schedule"
+  trigger?: string;
+  // Glasses session to stream from; the user's most recently connected session when omitted
+  sessionId?: string;
+}
+
+// Stores and collaborators the app uses; anything left out is created from environment config
+export interface AppDependencies {
+  settingsStore?: SettingsStore;
+  streamHistory?: StreamHistory;
+  auditLog?: AuditLog;
+  shareLinks?: ShareLinkStore;
+  webhookStore?: WebhookStore;
+  // Backoff between webhook delivery attempts
+  webhookRetryPolicy?: RetryPolicy;
+  // Resolves webhook host names for the private address check, DNS by default
+  resolveWebhookHost?: HostResolver;
+  recordingStore?: RecordingStore;
+  // null turns recording off
+  recordingRelay?: RecordingRelay | null;
+  // Opens sessions for openSession(); the SDK opens sessions requested by MentraOS Cloud itself
+  sessionFactory?: SessionFactory;
+}
+
+export class SimpleRtmpStreamingApp extends AppServer {
+  // Map sessionId to the session and its stream state
+  private sessionStates: Map<string, UserStreamState> = new Map();
+
+  // Map userId to the IDs of their connected sessions, oldest first
+  private userSessionIds: Map<string, string[]> = new Map();
+
+  private defaultRtmpUrl: string;
+
+  // Startup configuration, read by the route modules
+  private appConfig: AppConfig;
+
+  private sessionFactory?: SessionFactory;
+
+  // Persistent per-user settings (survives disconnections and restarts)
+  private settingsStore: SettingsStore;
+
+  // Pushes status updates to each user's open webviews
+  private streamEvents: StreamEventHub = new StreamEventHub();
+
+  // Per-user log of stream sessions
+  private streamHistory: StreamHistory;
+
+  // Trail of operator actions taken from the admin dashboard
+  private auditLog: AuditLog;
+
+  // Public viewer links to users' managed streams
+  private shareLinks: ShareLinkStore;
+
+  // Registered webhooks and their delivery log
+  private webhookStore: WebhookStore;
+
+  // Archived unmanaged streams and the relay that records them; recording is unavailable without a relay
+  private recordingStore: RecordingStore;
+  private recordingRelay: RecordingRelay | null;
+
+  // Sends stream lifecycle events to webhooks
+  private webhooks: WebhookDispatcher;
+
+  // Set once the server is listening and cleared on shutdown, for the readiness check
+  private ready: boolean = false;
+
+  // Prometheus metrics served at /metrics
+  private metrics: MetricsRegistry = new MetricsRegistry();
+
+  private streamRequestCounter = this.metrics.register(new Counter(
+    'rtmp_stream_requests_total', 'Stream start and stop API requests by route and outcome'));
+
+  private streamErrorCounter = this.metrics.register(new Counter(
+    'rtmp_stream_errors_total', 'Stream errors reported by the glasses or cloud, by mode and category'));
+
+  private startLatencyHistogram = this.metrics.register(new Histogram(
+    'rtmp_stream_start_latency_seconds', 'Time from a start request to the stream going active', START_LATENCY_BUCKETS));
+
+  private streamDurationHistogram = this.metrics.register(new Histogram(
+    'rtmp_stream_duration_seconds', 'How long streams stayed active', STREAM_DURATION_BUCKETS));
+
+  // Set while a scheduler pass is running so slow starts never overlap the next tick
+  private schedulerBusy: boolean = false;
+
+  // Why an open window has not started yet, logged once per window and reason
+  private pendingWindowReasons: Map<string, string> = new Map();
+
+  // Session each running window's stream was started on, so the window stops that stream and not another device's
+  private windowSessions: Map<string, string> = new Map();
+
+  /**
+   * @param config - Startup configuration, usually from readAppConfig()
+   * @param dependencies - Stores and session factory to use instead of the ones created from environment config
+   */
+  constructor(config: AppConfig, dependencies: AppDependencies = {}) {
+    super({
+      packageName: config.packageName,
+      apiKey: config.apiKey,
+      port: config.port,
+      publicDir: config.publicDir,
+      //augmentOSWebsocketUrl: 'ws://localhost:80/ws'
+    });
+    this.appConfig = config;
+    this.defaultRtmpUrl = config.defaultRtmpUrl;
+    this.sessionFactory = dependencies.sessionFactory;
+    this.settingsStore = dependencies.settingsStore ?? createSettingsStore();
+    this.streamHistory = dependencies.streamHistory ?? createStreamHistory();
+    this.auditLog = dependencies.auditLog ?? createAuditLog();
+    this.shareLinks = dependencies.shareLinks ?? createShareLinkStore();
+    this.webhookStore = dependencies.webhookStore ?? createWebhookStore();
+    this.recordingStore = dependencies.recordingStore ?? createRecordingStore();
+    this.recordingRelay = dependencies.recordingRelay !== undefined ? dependencies.recordingRelay : createRecordingRelay();
+    this.webhooks = new WebhookDispatcher(this.webhookStore, dependencies.webhookRetryPolicy, {
+      allowPrivateHosts: config.allowPrivateWebhookUrls,
+      resolveHost: dependencies.resolveWebhookHost,
+    });
+    this.addCleanupHandler(() => this.webhooks.stop());
+    this.addCleanupHandler(() => this.streamHistory.close());
+    this.addCleanupHandler(() => { this.ready = false; });
+    this.addCleanupHandler(() => this.sessionStates.forEach(userState => this.releaseSessionHandlers(userState)));
+    this.registerStateGauges();
+    // Registered first so its request counting middleware sees the stream routes
+    setupMonitoringRoutes(this);
+    setupExpressRoutes(this);
+    setupAdminRoutes(this);
+    setupViewerRoutes(this);
+  }
+
+  // Startup configuration the app was created with
+  public getAppConfig(): AppConfig {
+    return this.appConfig;
+  }
+
+  /**
+   * Opens a session through the configured session factory and sets it up like a session requested by MentraOS Cloud
+   * @param sessionId - ID of the new session
+   * @param userId - The user the session belongs to
+   * @returns The opened session
+   * @throws {Error} If the app was created without a session factory
+   */
+  public async openSession(sessionId: string, userId: string): Promise<StreamingSession> {
+    if (!this.sessionFactory) {
+      throw new Error('No session factory configured');
+    }
+    const session = await this.sessionFactory(sessionId, userId);
+    await this.onSession(session, sessionId, userId);
+    return session;
+  }
+
+  /**
+   * Lists a user's connected glasses sessions, one per device
+   * @param userId - The user to list sessions for
+   * @returns The sessions, most recently connected first
+   */
+  public getSessionsForUser(userId: string): UserSessionSummary[] {
+    const primary = this.getUserState(userId);
+    return this.getUserStates(userId).reverse().map(userState => ({
+      sessionId: userState.sessionId,
+      connectedAt: userState.connectedAt,
+      primary: userState === primary,
+      streamState: userState.machine.snapshot(),
+      battery: userState.battery,
+    }));
+  }
+
+  /**
+   * Whether a user is connected, or has a specific session connected
+   * @param userId - The user to check
+   * @param sessionId - A session that must belong to the user
+   */
+  public hasActiveSession(userId: string, sessionId?: string): boolean {
+    return this.getUserState(userId, sessionId) !== undefined;
+  }
+
+  /**
+   * ID of the session that requests without a session ID act on
+   * @param userId - The user to look up
+   * @returns The user's most recently connected session, or null if they are not connected
+   */
+  public getPrimarySessionIdForUser(userId: string): string | null {
+    return this.getUserState(userId)?.sessionId ?? null;
+  }
+
+  // State of one of a user's sessions; the most recently connected one when no session ID is given
+  private getUserState(userId: string, sessionId?: string): UserStreamState | undefined {
+    const sessionIds = this.userSessionIds.get(userId) ?? [];
+    const id = sessionId ?? sessionIds[sessionIds.length - 1];
+    return id !== undefined && sessionIds.includes(id) ? this.sessionStates.get(id) : undefined;
+  }
+
+  // States of all of a user's sessions, oldest first
+  private getUserStates(userId: string): UserStreamState[] {
+    return (this.userSessionIds.get(userId) ?? []).map(id => this.sessionStates.get(id)!);
+  }
+
+  // Whether a session is still connected, checked by work that resumes after an await
+  private isSessionActive(userState: UserStreamState): boolean {
+    return this.sessionStates.get(userState.sessionId) === userState;
+  }
+
+  /**
+   * Fails a stream request whose glasses disconnected while it was waiting
+   * @throws {Error} If the session is no longer connected
+   */
+  private assertSessionActive(userState: UserStreamState): void {
+    if (!this.isSessionActive(userState)) {
+      throw new Error('The glasses disconnected before the request completed.');
+    }
+  }
+
+  /**
+   * Gets the persistent settings for a user, falling back to defaults if nothing is stored
+   * @param userId - The user ID to get settings for
+   * @returns The user's stored settings or a fresh default record
+   */
+  public getUserSettings(userId: string): UserPersistentSettings {
+    return this.settingsStore.get(userId) || createDefaultSettings();
+  }
+
+  /**
+   * Merges a partial update into a user's persistent settings and saves it
+   * @param userId - The user ID to update settings for
+   * @param changes - The fields to change
+   * @returns The saved settings record
+   */
+  private updateUserSettings(userId: string, changes: Partial<Omit<UserPersistentSettings, 'version' | 'createdAt' | 'updatedAt'>>): UserPersistentSettings {
+    const updated: UserPersistentSettings = {
+      ...this.getUserSettings(userId),
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    this.settingsStore.set(userId, updated);
+    return updated;
+  }
+
+  /**
+   * Lists every encoding profile available to a user (built-in and custom)
+   * @param userId - The user ID to list profiles for
+   */
+  public getEncodingProfilesForUser(userId: string): EncodingProfile[] {
+    return [...BUILT_IN_ENCODING_PROFILES, ...this.getUserSettings(userId).customEncodingProfiles];
+  }
+
+  /**
+   * Resolves the encoding profile a user's streams should use
+   * @param userId - The user ID to resolve the profile for
+   * @param profileId - Optional profile ID overriding the user's saved selection
+   * @returns The matching profile, falling back to the default if the saved selection no longer exists
+   * @throws {InvalidEncodingProfileError} If an explicit profileId is given but unknown
+   */
+  public getEncodingProfileForUser(userId: string, profileId?: string): EncodingProfile {
+    const settings = this.getUserSettings(userId);
+    if (profileId) {
+      const profile = findEncodingProfile(profileId, settings.customEncodingProfiles);
+      if (!profile) {
+        throw new InvalidEncodingProfileError(`Unknown encoding profile: ${profileId}`);
+      }
+      return profile;
+    }
+    return findEncodingProfile(settings.encodingProfileId, settings.customEncodingProfiles)
+      || findEncodingProfile(DEFAULT_ENCODING_PROFILE_ID)!;
+  }
+
+  /**
+   * Selects the encoding profile used for a user's future streams
+   * @param userId - The user ID to update
+   * @param profileId - ID of a built-in or custom profile
+   * @throws {InvalidEncodingProfileError} If the profile does not exist
+   */
+  public setEncodingProfileForUser(userId: string, profileId: string): EncodingProfile {
+    const profile = this.getEncodingProfileForUser(userId, profileId);
+    this.updateUserSettings(userId, { encodingProfileId: profile.id });
+    this.userLog(userId).info(`Encoding profile set to ${profile.id}`);
+    return profile;
+  }
+
+  /**
+   * Adds or replaces a custom encoding profile for a user
+   * @param userId - The user ID to add the profile for
+   * @param input - Raw profile definition (name, video, audio)
+   * @returns The saved profile
+   * @throws {InvalidEncodingProfileError} If the profile is outside ENCODING_BOUNDS
+   */
+  public saveCustomEncodingProfileForUser(userId: string, input: any): EncodingProfile {
+    const errors = validateEncodingProfile(input);
+    if (errors.length > 0) {
+      throw new InvalidEncodingProfileError('Invalid encoding profile', errors);
+    }
+    const profile = createCustomEncodingProfile(input);
+    const settings = this.getUserSettings(userId);
+    const customEncodingProfiles = settings.customEncodingProfiles.filter(p => p.id !== profile.id);
+    customEncodingProfiles.push(profile);
+    this.updateUserSettings(userId, { customEncodingProfiles });
+    this.userLog(userId).info(`Custom encoding profile ${profile.id} saved`);
+    return profile;
+  }
+
+  /**
+   * Deletes a custom encoding profile, resetting the user's selection if it was in use
+   * @param userId - The user ID to delete the profile for
+   * @param profileId - ID of the custom profile
+   * @returns true if a profile was removed
+   */
+  public deleteCustomEncodingProfileForUser(userId: string, profileId: string): boolean {
+    const settings = this.getUserSettings(userId);
+    const customEncodingProfiles = settings.customEncodingProfiles.filter(p => p.id !== profileId);
+    if (customEncodingProfiles.length === settings.customEncodingProfiles.length) {
+      return false;
+    }
+    const encodingProfileId = settings.encodingProfileId === profileId ? DEFAULT_ENCODING_PROFILE_ID : settings.encodingProfileId;
+    this.updateUserSettings(userId, { customEncodingProfiles, encodingProfileId });
+    return true;
+  }
+
+  /**
+   * Updates the auto-start rules for a user
+   * @param userId - The user ID to update
+   * @param changes - New policy, photo opt-in, and/or whether to confirm the current destination
+   * @returns The saved settings
+   * @throws {Error} If the policy is not one of AUTO_START_POLICIES
+   */
+  public setAutoStartSettingsForUser(
+    userId: string,
+    changes: { autoStartPolicy?: AutoStartPolicy; captureInitialPhoto?: boolean; confirmDestination?: boolean }
+  ): UserPersistentSettings {
+    const update: Partial<UserPersistentSettings> = {};
+    if (changes.autoStartPolicy !== undefined) {
+      if (!AUTO_START_POLICIES.includes(changes.autoStartPolicy)) {
+        throw new Error(`Auto-start policy must be one of: ${AUTO_START_POLICIES.join(', ')}`);
+      }
+      update.autoStartPolicy = changes.autoStartPolicy;
+    }
+    if (changes.captureInitialPhoto !== undefined) {
+      update.captureInitialPhoto = changes.captureInitialPhoto;
+    }
+    if (changes.confirmDestination !== undefined) {
+      // Confirmation is tied to the exact URL, so changing the URL later revokes it
+      update.confirmedRtmpUrl = changes.confirmDestination ? this.getRtmpUrlForUser(userId) : null;
+    }
+    const settings = this.updateUserSettings(userId, update);
+    this.userLog(userId).info(`Auto-start settings: policy=${settings.autoStartPolicy}, photo=${settings.captureInitialPhoto}, confirmed=${settings.confirmedRtmpUrl !== null}`);
+    return settings;
+  }
+
+  /**
+   * Checks whether the user's current destination is the one they confirmed for auto-start
+   * @param userId - The user ID to check
+   */
+  public isDestinationConfirmedForUser(userId: string): boolean {
+    const confirmedRtmpUrl = this.getUserSettings(userId).confirmedRtmpUrl;
+    return confirmedRtmpUrl !== null && confirmedRtmpUrl === this.getRtmpUrlForUser(userId);
+  }
+
+  /**
+   * Lists a user's saved RTMP destinations
+   * @param userId - The user ID to list destinations for
+   * @returns The destinations with full URLs; mask them before sending to clients
+   */
+  public getDestinationsForUser(userId: string): RtmpDestination[] {
+    return this.getUserSettings(userId).destinations;
+  }
+
+  /**
+   * Gets the destination currently marked active for a user
+   * @param userId - The user ID to look up
+   * @returns The active destination or undefined if none is set
+   */
+  public getActiveDestinationForUser(userId: string): RtmpDestination | undefined {
+    const settings = this.getUserSettings(userId);
+    return settings.destinations.find(d => d.id === settings.activeDestinationId);
+  }
+
+  /**
+   * Adds a named RTMP destination for a user
+   * @param userId - The user ID to add the destination for
+   * @param name - Display name, e.g. "Twitch"
+   * @param rtmpUrl - Full ingest URL including stream key
+   * @param makeActive - Whether to mark it active; the first destination is always made active
+   * @returns The created destination
+   * @throws {RtmpUrlValidationError} If the URL does not parse
+   * @throws {Error} If the user already has MAX_DESTINATIONS_PER_USER destinations
+   */
+  public addDestinationForUser(userId: string, name: string, rtmpUrl: string, makeActive: boolean = false): RtmpDestination {
+    parseRtmpUrl(rtmpUrl);
+    const settings = this.getUserSettings(userId);
+    if (settings.destinations.length >= MAX_DESTINATIONS_PER_USER) {
+      throw new Error(`A user can have at most ${MAX_DESTINATIONS_PER_USER} destinations`);
+    }
+    const destination = createDestination(name, rtmpUrl);
+    const activeDestinationId = makeActive || !settings.activeDestinationId ? destination.id : settings.activeDestinationId;
+    this.updateUserSettings(userId, { destinations: [...settings.destinations, destination], activeDestinationId });
+    this.userLog(userId).info(`Destination "${destination.name}" added: ${maskRtmpUrl(rtmpUrl)}`);
+    if (activeDestinationId === destination.id) {
+      this.applyActiveDestination(userId);
+    }
+    return destination;
+  }
+
+  /**
+   * Renames a destination and/or changes its URL
+   * @param userId - The user ID owning the destination
+   * @param destinationId - The destination to update
+   * @param changes - New name and/or URL
+   * @returns The updated destination or undefined if it does not exist
+   * @throws {RtmpUrlValidationError} If a new URL is given and does not parse
+   */
+  public updateDestinationForUser(userId: string, destinationId: string, changes: { name?: string; rtmpUrl?: string }): RtmpDestination | undefined {
+    if (changes.rtmpUrl !== undefined) {
+      parseRtmpUrl(changes.rtmpUrl);
+    }
+    const settings = this.getUserSettings(userId);
+    const existing = settings.destinations.find(d => d.id === destinationId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated: RtmpDestination = {
+      ...existing,
+      name: changes.name !== undefined ? changes.name.trim() : existing.name,
+      rtmpUrl: changes.rtmpUrl !== undefined ? changes.rtmpUrl : existing.rtmpUrl,
+      updatedAt: new Date().toISOString(),
+    };
+    this.updateUserSettings(userId, { destinations: settings.destinations.map(d => d.id === destinationId ? updated : d) });
+    this.userLog(userId).info(`Destination "${updated.name}" updated: ${maskRtmpUrl(updated.rtmpUrl)}`);
+    if (settings.activeDestinationId === destinationId) {
+      this.applyActiveDestination(userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Deletes a destination; if it was active, the first remaining destination becomes active
+   * @param userId - The user ID owning the destination
+   * @param destinationId - The destination to delete
+   * @returns true if a destination was removed
+   */
+  public deleteDestinationForUser(userId: string, destinationId: string): boolean {
+    const settings = this.getUserSettings(userId);
+    const destinations = settings.destinations.filter(d => d.id !== destinationId);
+    if (destinations.length === settings.destinations.length) {
+      return false;
+    }
+    const activeDestinationId = settings.activeDestinationId === destinationId ? (destinations[0]?.id ?? null) : settings.activeDestinationId;
+    this.updateUserSettings(userId, { destinations, activeDestinationId });
+    this.userLog(userId).info(`Destination ${destinationId} deleted`);
+    this.applyActiveDestination(userId);
+    return true;
+  }
+
+  /**
+   * Marks a destination as the one used by default for the user's streams
+   * @param userId - The user ID owning the destination
+   * @param destinationId - The destination to activate
+   * @returns The activated destination or undefined if it does not exist
+   */
+  public setActiveDestinationForUser(userId: string, destinationId: string): RtmpDestination | undefined {
+    const destination = this.getDestinationsForUser(userId).find(d => d.id === destinationId);
+    if (!destination) {
+      return undefined;
+    }
+    this.updateUserSettings(userId, { activeDestinationId: destination.id });
+    this.userLog(userId).info(`Active destination set to "${destination.name}"`);
+    this.applyActiveDestination(userId);
+    return destination;
+  }
+
+  /**
+   * Checks whether an RTMP ingest is reachable and speaks RTMP, without publishing anything
+   * @param userId - The user ID requesting the probe
+   * @param target - Either a raw URL or one of the user's saved destinations
+   * @returns The probe result
+   * @throws {RtmpUrlValidationError} If the URL does not parse
+   * @throws {DestinationNotFoundError} If the destination does not exist
+   */
+  public async testDestinationForUser(userId: string, target: { rtmpUrl?: string; destinationId?: string }): Promise<RtmpProbeResult> {
+    let rtmpUrl = target.rtmpUrl;
+    if (!rtmpUrl && target.destinationId) {
+      const destination = this.getDestinationsForUser(userId).find(d => d.id === target.destinationId);
+      if (!destination) {
+        throw new DestinationNotFoundError(target.destinationId);
+      }
+      rtmpUrl = destination.rtmpUrl;
+    }
+    const parsed = parseRtmpUrl(rtmpUrl || this.getRtmpUrlForUser(userId));
+    this.userLog(userId).info(`Probing RTMP destination ${parsed.host}:${parsed.port}`);
+    const result = await probeRtmpDestination(parsed);
+    this.userLog(userId).info('Probe finished', { host: parsed.host, port: parsed.port, reachable: result.reachable, handshake: result.handshake, error: result.error });
+    return result;
+  }
+
+  // Points each of the user's live sessions at their active destination after a destination change
+  private applyActiveDestination(userId: string): void {
+    const active = this.getActiveDestinationForUser(userId);
+    for (const userState of this.getUserStates(userId)) {
+      userState.rtmpUrl = active?.rtmpUrl || this.defaultRtmpUrl;
+      userState.destinationId = active?.id ?? null;
+    }
+  }
+
+  /**
+   * Gets the automatic reconnect policy for a user's unmanaged streams
+   * @param userId - The user ID to get the policy for
+   */
+  public getRetryPolicyForUser(userId: string): RetryPolicy {
+    return this.getUserSettings(userId).retryPolicy;
+  }
+
+  /**
+   * Updates the automatic reconnect policy for a user
+   * @param userId - The user ID to update
+   * @param changes - Policy fields to change
+   * @returns The saved policy
+   * @throws {Error} If the update is outside the allowed bounds
+   */
+  public setRetryPolicyForUser(userId: string, changes: Partial<RetryPolicy>): RetryPolicy {
+    const retryPolicy = { ...this.getRetryPolicyForUser(userId), ...changes };
+    const errors = validateRetryPolicy(retryPolicy);
+    if (errors.length > 0) {
+      throw new Error(`Invalid retry policy: ${errors.join('; ')}`);
+    }
+    this.updateUserSettings(userId, { retryPolicy });
+    this.userLog(userId).info('Retry policy updated', { retryPolicy });
+    return retryPolicy;
+  }
+
+  /**
+   * Gets the retry progress of a user's unmanaged stream
+   * @param userId - The user ID to look up
+   * @param sessionId - The session to look up, the user's most recently connected one by default
+   * @returns Retry count and next attempt time, or null if the user has no such session
+   */
+  public getRetryInfoForUser(userId: string, sessionId?: string) {
+    const userState = this.getUserState(userId, sessionId);
+    return userState ? this.getRetryInfo(userState) : null;
+  }
+
+  // Retry progress of one session's unmanaged stream
+  private getRetryInfo(userState: UserStreamState) {
+    const policy = this.getRetryPolicyForUser(userState.userId);
+    return {
+      enabled: policy.enabled,
+      attempt: userState.retry.attempt,
+      maxAttempts: policy.maxAttempts,
+      nextAttemptAt: userState.retry.nextAttemptAt,
+      lastError: userState.retry.lastError,
+      gaveUp: userState.retry.gaveUp,
+    };
+  }
+
+  /**
+   * Gets a page of a user's stream session history, newest first
+   * @param userId - The user ID to get history for
+   * @param page - 1-based page number
+   * @param pageSize - Entries per page
+   */
+  public getStreamHistoryForUser(userId: string, page: number = 1, pageSize: number = 20): StreamHistoryPage {
+    return this.streamHistory.list(userId, page, pageSize);
+  }
+
+  /**
+   * Summarizes every connected session's stream state for operators
+   * @returns One summary per active session, stream keys never included
+   */
+  public getActiveSessionSummaries(): ActiveSessionSummary[] {
+    const now = Date.now();
+    return Array.from(this.sessionStates.values()).map(userState => {
+      const unmanagedLive = userState.machine.isActive('unmanaged');
+      const managedLive = userState.machine.isActive('managed');
+      const timestamps = [userState.streamStatus.timestamp, userState.managedStreamStatus?.timestamp]
+        .filter((t): t is Date => !!t)
+        .map(t => new Date(t).getTime());
+      return {
+        userId: userState.userId,
+        sessionId: userState.sessionId,
+        streamMode: unmanagedLive && managedLive ? 'both' : unmanagedLive ? 'unmanaged' : managedLive ? 'managed' : 'none',
+        unmanagedStatus: userState.streamStatus.status,
+        managedStatus: userState.managedStreamStatus?.status ?? null,
+        destinationHost: unmanagedLive ? describeDestination(userState.rtmpUrl) : null,
+        uptimeMs: now - userState.connectedAt.getTime(),
+        lastStatusAt: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null,
+      };
+    });
+  }
+
+  /**
+   * Stops a user's stream on behalf of an operator and records it in the audit trail
+   * @param operator - Who is acting, as reported by the admin dashboard
+   * @param userId - The user whose stream to stop
+   * @param mode - Which stream to stop
+   * @param sessionId - The session whose stream to stop, the user's most recently connected one by default
+   * @returns The audit entry for the action
+   */
+  public async forceStopStreamForUser(operator: string, userId: string, mode: StreamMode, sessionId?: string): Promise<AuditEntry> {
+    const action = mode === 'managed' ? 'force-stop-managed-stream' : 'force-stop-unmanaged-stream';
+    const userState = this.getUserState(userId, sessionId);
+    const details = { sessionId: userState?.sessionId ?? sessionId ?? null };
+    try {
+      if (userState) {
+        this.streamHistory.recordEvent(userId, userState.sessionId, mode, 'operator-stop', { message: operator });
+      }
+      if (mode === 'managed') {
+        await this.stopManagedStreamForUser(userId, sessionId);
+      } else {
+        await this.stopStreamForUser(userId, sessionId);
+      }
+      this.showTextWall(userState?.session, `Your ${mode} stream was stopped by an operator.`);
+      return this.auditLog.record({ operator, action, targetUserId: userId, details, success: true });
+    } catch (error: any) {
+      this.auditLog.record({ operator, action, targetUserId: userId, details, success: false, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the most recent operator actions, newest first
+   * @param limit - Maximum number of entries to return
+   */
+  public getAuditLog(limit?: number): AuditEntry[] {
+    return this.auditLog.list(limit);
+  }
+
+  /**
+   * Creates a public viewer link for a user's managed stream
+   * @param userId - The owner of the stream
+   * @param label - Display name for the owner's list
+   * @param expiresInHours - Lifetime of the link
+   * @throws {ShareLinkError} If the expiry is out of range or the user has too many active links
+   */
+  public createShareLinkForUser(userId: string, label: string, expiresInHours?: number): ShareLinkSummary {
+    const link = this.shareLinks.create(userId, label, expiresInHours);
+    this.userLog(userId).info(`Share link ${link.id} created, expires ${link.expiresAt}`);
+    return this.shareLinks.summarize(link);
+  }
+
+  /**
+   * Lists a user's share links with view counts, newest first
+   * @param userId - The owner to list links for
+   */
+  public getShareLinksForUser(userId: string): ShareLinkSummary[] {
+    return this.shareLinks.listForOwner(userId).map(link => this.shareLinks.summarize(link));
+  }
+
+  /**
+   * Revokes a share link; open viewer pages are closed on their next check
+   * @param userId - The owner of the link
+   * @param linkId - The link to revoke
+   * @returns The revoked link or undefined if the user has no such link
+   */
+  public revokeShareLinkForUser(userId: string, linkId: string): ShareLinkSummary | undefined {
+    const link = this.shareLinks.revoke(userId, linkId);
+    if (!link) {
+      return undefined;
+    }
+    this.userLog(userId).info(`Share link ${linkId} revoked`);
+    return this.shareLinks.summarize(link);
+  }
+
+  /**
+   * Resolves a public share token to what the viewer may see
+   * @param token - Token from the viewer URL
+   * @param countView - Whether this is a page load that counts as a view
+   * @returns The stream view, or undefined if the link is unknown, expired or revoked
+   */
+  public getSharedStream(token: string, countView: boolean = false): SharedStreamView | undefined {
+    const link = this.shareLinks.resolve(token);
+    if (!link) {
+      return undefined;
+    }
+    if (countView) {
+      this.shareLinks.recordView(link.id);
+    }
+    return this.toSharedStreamView(link.label, this.getSharedManagedStreamStatus(link.ownerUserId));
+  }
+
+  /**
+   * Follows a shared stream's live state for an open viewer page
+   * @param token - Token from the viewer URL
+   * @param listener - Called with the new view on every managed stream status change
+   * @returns A function to call when the viewer leaves, or undefined if the link is not active
+   */
+  public watchSharedStream(token: string, listener: (view: SharedStreamView) => void): (() => void) | undefined {
+    const link = this.shareLinks.resolve(token);
+    if (!link) {
+      return undefined;
+    }
+    const removeViewer = this.shareLinks.addViewer(link.id);
+    const unsubscribe = this.streamEvents.subscribe(link.ownerUserId, event => {
+      if (event === 'managed-stream-status') {
+        listener(this.toSharedStreamView(link.label, this.getSharedManagedStreamStatus(link.ownerUserId)));
+      }
+    });
+    return () => {
+      unsubscribe();
+      removeViewer();
+    };
+  }
+
+  // The managed stream viewers of a user's share links see: the one on their most recently connected session that has one
+  private getSharedManagedStreamStatus(userId: string): ManagedStreamStatus | null {
+    return this.getUserStates(userId).reverse().find(userState => userState.managedStreamStatus)?.managedStreamStatus ?? null;
+  }
+
+  // Reduces a managed stream status to the fields a public viewer may see
+  private toSharedStreamView(label: string, status: ManagedStreamStatus | null): SharedStreamView {
+    const running = status !== null && (status.status === 'active' || status.status === 'initializing' || status.status === 'preparing');
+    return {
+      label,
+      live: status?.status === 'active',
+      status: status?.status ?? 'offline',
+      hlsUrl: running ? status!.hlsUrl ?? null : null,
+      dashUrl: running ? status!.dashUrl ?? null : null,
+      webrtcUrl: running ? status!.webrtcUrl ?? null : null,
+    };
+  }
+
+  /**
+   * Lists webhooks without their secrets
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   */
+  public getWebhooks(ownerUserId: string | null): WebhookSummary[] {
+    return this.webhookStore.list(ownerUserId).map(({ secret, ...summary }) => summary);
+  }
+
+  /**
+   * Registers a webhook. User webhooks may only point at private or local addresses if WEBHOOKS_ALLOW_PRIVATE_URLS=true.
+   * @param ownerUserId - A user ID, or null for an operator webhook that receives events for every user
+   * @param input - url, and optionally events, secret and description
+   * @returns The webhook including its secret, which is not shown again
+   * @throws {WebhookValidationError} If the input is invalid or the user has too many webhooks
+   */
+  public createWebhook(ownerUserId: string | null, input: any): WebhookEndpoint {
+    const allowPrivateHosts = ownerUserId === null || this.appConfig.allowPrivateWebhookUrls;
+    const errors = validateWebhookInput(input, allowPrivateHosts);
+    if (errors.length > 0) {
+      throw new WebhookValidationError(errors);
+    }
+    const endpoint = this.webhookStore.create(ownerUserId, {
+      url: input.url,
+      events: input.events,
+      secret: input.secret,
+      description: input.description,
+    });
+    logger.info(`Webhook ${endpoint.id} registered for ${ownerUserId ?? 'operators'}`);
+    return endpoint;
+  }
+
+  /**
+   * Turns a webhook on or off
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to change
+   * @param enabled - Whether it should receive events
+   * @returns The updated webhook or undefined if the owner has no such webhook
+   */
+  public setWebhookEnabled(ownerUserId: string | null, webhookId: string, enabled: boolean): WebhookSummary | undefined {
+    const endpoint = this.webhookStore.setEnabled(ownerUserId, webhookId, enabled);
+    if (!endpoint) {
+      return undefined;
+    }
+    const { secret, ...summary } = endpoint;
+    return summary;
+  }
+
+  /**
+   * Deletes a webhook; pending retries to it are dropped
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to delete
+   * @returns true if the webhook existed
+   */
+  public deleteWebhook(ownerUserId: string | null, webhookId: string): boolean {
+    const deleted = this.webhookStore.remove(ownerUserId, webhookId);
+    if (deleted) {
+      logger.info(`Webhook ${webhookId} deleted for ${ownerUserId ?? 'operators'}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Sends a test payload to a webhook once, without retries
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to test
+   * @returns The delivery, or undefined if the owner has no such webhook
+   */
+  public async testWebhook(ownerUserId: string | null, webhookId: string): Promise<WebhookDelivery | undefined> {
+    const endpoint = this.webhookStore.get(ownerUserId, webhookId);
+    if (!endpoint) {
+      return undefined;
+    }
+    return this.webhooks.sendTest(endpoint, ownerUserId ?? 'operator-test');
+  }
+
+  /**
+   * Lists recent deliveries to an owner's webhooks, newest first
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param limit - Maximum number of entries to return
+   */
+  public getWebhookDeliveries(ownerUserId: string | null, limit?: number): WebhookDelivery[] {
+    const webhookIds = this.webhookStore.list(ownerUserId).map(endpoint => endpoint.id);
+    return this.webhookStore.listDeliveries(webhookIds, limit);
+  }
+
+  /**
+   * Registers an operator webhook and records it in the audit trail
+   * @param operator - Who is acting, as reported by the admin dashboard
+   * @param input - url, and optionally events, secret and description
+   * @throws {WebhookValidationError} If the input is invalid
+   */
+  public createOperatorWebhook(operator: string, input: any): WebhookEndpoint {
+    try {
+      const endpoint = this.createWebhook(null, input);
+      this.auditLog.record({ operator, action: 'create-webhook', targetUserId: '*', details: { webhookId: endpoint.id, url: endpoint.url }, success: true });
+      return endpoint;
+    } catch (error: any) {
+      this.auditLog.record({ operator, action: 'create-webhook', targetUserId: '*', success: false, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an operator webhook and records it in the audit trail
+   * @param operator - Who is acting, as reported by the admin dashboard
+   * @param webhookId - The webhook to delete
+   * @returns true if the webhook existed
+   */
+  public deleteOperatorWebhook(operator: string, webhookId: string): boolean {
+    const deleted = this.deleteWebhook(null, webhookId);
+    if (deleted) {
+      this.auditLog.record({ operator, action: 'delete-webhook', targetUserId: '*', details: { webhookId }, success: true });
+    }
+    return deleted;
+  }
+
+  /**
+   * Logger for a user's lines that are not about one session, carrying the user ID for correlation
+   * @param userId - The user the line is about
+   */
+  private userLog(userId: string): Logger {
+    return logger.child({ userId });
+  }
+
+  /**
+   * Logger for one session's lines, carrying the user and session IDs for correlation
+   * @param userState - The session the line is about
+   * @param mode - The stream the line is about; adds its stream ID, which is the ID of its history entry
+   */
+  private sessionLog(userState: UserStreamState, mode?: StreamMode): Logger {
+    const context: LogContext = { userId: userState.userId, sessionId: userState.sessionId };
+    if (mode) {
+      context.mode = mode;
+      context.streamId = this.streamHistory.getOpenEntryId(userState.userId, userState.sessionId, mode);
+    }
+    return logger.child(context);
+  }
+
+  /**
+   * Shows text on the user's glasses with stream keys and credentials masked
+   * @param session - The user's session, if connected
+   * @param text - The text to show
+   */
+  private showTextWall(session: StreamingSession | undefined, text: string): void {
+    session?.layouts.showTextWall(redactSecrets(text));
+  }
+
+  // Gauges computed from the live session state on every scrape
+  private registerStateGauges(): void {
+    this.metrics.register(new Gauge('rtmp_active_sessions', 'Connected glasses sessions', () => [
+      { labels: {}, value: this.sessionStates.size },
+    ]));
+    this.metrics.register(new Gauge('rtmp_streams', 'Streams by mode and latest reported status', () => {
+      const counts = new Map<string, { labels: { mode: string; status: string }; value: number }>();
+      const add = (mode: StreamMode, status: string) => {
+        const key = `${mode}:${status}`;
+        const entry = counts.get(key) ?? { labels: { mode, status }, value: 0 };
+        entry.value++;
+        counts.set(key, entry);
+      };
+      for (const userState of this.sessionStates.values()) {
+        add('unmanaged', userState.streamStatus.status);
+        if (userState.managedStreamStatus) {
+          add('managed', userState.managedStreamStatus.status);
+        }
+      }
+      return Array.from(counts.values());
+    }));
+  }
+
+  /**
+   * Counts a finished stream start or stop API request
+   * @param route - The route pattern, e.g. "/api/start-stream"
+   * @param success - Whether the request succeeded
+   */
+  public recordStreamRequest(route: string, success: boolean): void {
+    this.streamRequestCounter.inc({ route, outcome: success ? 'success' : 'failure' });
+  }
+
+  // All metrics in the Prometheus text format
+  public renderMetrics(): string {
+    return this.metrics.render();
+  }
+
+  /**
+   * Readiness of the server for the load balancer
+   * @returns Whether traffic can be served, with the result of each check
+   */
+  public getHealth(): { ready: boolean; checks: Record<string, string> } {
+    const checks: Record<string, string> = { server: this.ready ? 'ok' : 'not listening' };
+    try {
+      this.settingsStore.listUserIds();
+      checks.settingsStore = 'ok';
+    } catch (error: any) {
+      checks.settingsStore = error.message || 'unavailable';
+    }
+    return { ready: Object.values(checks).every(result => result === 'ok'), checks };
+  }
+
+  // Updates start latency and duration metrics, then notifies webhooks
+  private handleStreamTransition(userState: UserStreamState, transition: StreamTransition): void {
+    const now = transition.at.getTime();
+    const { mode } = transition;
+    if (transition.from === 'live' && userState.liveSince[mode] !== null) {
+      this.streamDurationHistogram.observe({ mode }, (now - userState.liveSince[mode]!) / 1000);
+      userState.liveSince[mode] = null;
+    }
+    if (transition.to === 'starting' && userState.startRequestedAt[mode] === null) {
+      userState.startRequestedAt[mode] = now;
+    } else if (transition.to === 'live') {
+      if (userState.startRequestedAt[mode] !== null) {
+        this.startLatencyHistogram.observe({ mode }, (now - userState.startRequestedAt[mode]!) / 1000);
+      }
+      userState.startRequestedAt[mode] = null;
+      userState.liveSince[mode] = now;
+    } else if (transition.to === 'idle' || transition.to === 'error') {
+      userState.startRequestedAt[mode] = null;
+    }
+    if (mode === 'unmanaged') {
+      if (transition.to === 'starting' && (transition.from === 'idle' || transition.from === 'error')) {
+        // A new stream gets a fresh chart
+        userState.stats.clear();
+        userState.streamHealth = null;
+      } else if (transition.to === 'idle' || transition.to === 'error') {
+        // The samples stay for the chart, but health only applies while streaming
+        userState.streamHealth = null;
+      }
+    }
+    this.sendStreamWebhook(userState, transition);
+  }
+
+  // Announces a stream phase change to the user's and the operators' webhooks
+  private sendStreamWebhook(userState: UserStreamState, transition: StreamTransition): void {
+    const event = webhookEventForTransition(transition);
+    if (!event) {
+      return;
+    }
+    const data: Record<string, any> = {
+      sessionId: userState.sessionId,
+      mode: transition.mode,
+      phase: transition.to,
+      previousPhase: transition.from,
+      reason: transition.reason,
+    };
+    if (transition.mode === 'unmanaged') {
+      data.destination = maskRtmpUrl(userState.rtmpUrl);
+      data.message = userState.streamStatus.errorDetails ?? null;
+    } else if (transition.mode === 'managed' && userState.managedStreamStatus) {
+      const status = userState.managedStreamStatus;
+      data.message = status.message ?? null;
+      if (transition.to === 'live') {
+        data.hlsUrl = status.hlsUrl ?? null;
+        data.dashUrl = status.dashUrl ?? null;
+        data.webrtcUrl = status.webrtcUrl ?? null;
+      }
+    }
+    this.webhooks.dispatch(userState.userId, event, data);
+  }
+
+  /**
+   * Lists a user's scheduled stream windows, soonest first
+   * @param userId - The user ID to list windows for
+   */
+  public getStreamWindowsForUser(userId: string): StreamWindow[] {
+    return [...this.getUserSettings(userId).streamWindows].sort((a, b) => Date.parse(a.startAt) - Date.parse(b.startAt));
+  }
+
+  /**
+   * Schedules a stream window for a user
+   * @param userId - The user ID to schedule for
+   * @param input - Raw window definition (name, mode, startAt, endAt and/or maxDurationMinutes, destinationId)
+   * @returns The created window
+   * @throws {InvalidStreamWindowError} If the definition is invalid, the destination is unknown or too many windows are pending
+   */
+  public addStreamWindowForUser(userId: string, input: any): StreamWindow {
+    const errors = validateStreamWindow(input);
+    if (errors.length > 0) {
+      throw new InvalidStreamWindowError('Invalid stream window', errors);
+    }
+    const settings = this.getUserSettings(userId);
+    if (input.mode === 'unmanaged' && input.destinationId && !settings.destinations.some(d => d.id === input.destinationId)) {
+      throw new InvalidStreamWindowError(`Unknown destination: ${input.destinationId}`);
+    }
+
+    const open = settings.streamWindows.filter(w => w.state === 'pending' || w.state === 'running');
+    if (open.length >= MAX_STREAM_WINDOWS_PER_USER) {
+      throw new InvalidStreamWindowError(`A user can have at most ${MAX_STREAM_WINDOWS_PER_USER} scheduled windows`);
+    }
+    // Keep only the most recent finished windows
+    const finished = settings.streamWindows
+      .filter(w => w.state !== 'pending' && w.state !== 'running')
+      .sort((a, b) => Date.parse(b.startAt) - Date.parse(a.startAt))
+      .slice(0, MAX_FINISHED_STREAM_WINDOWS);
+
+    const window = createStreamWindow(input);
+    this.updateUserSettings(userId, { streamWindows: [...open, ...finished, window] });
+    this.userLog(userId).info(`Stream window "${window.name}" scheduled: ${window.mode} from ${window.startAt}`);
+    return window;
+  }
+
+  /**
+   * Cancels a scheduled window; a window that is running has its stream stopped
+   * @param userId - The user ID owning the window
+   * @param windowId - The window to cancel
+   * @returns The cancelled window or undefined if it does not exist
+   */
+  public async cancelStreamWindowForUser(userId: string, windowId: string): Promise<StreamWindow | undefined> {
+    const window = this.getUserSettings(userId).streamWindows.find(w => w.id === windowId);
+    if (!window) {
+      return undefined;
+    }
+    if (window.state !== 'pending' && window.state !== 'running') {
+      return window;
+    }
+    const wasRunning = window.state === 'running';
+    const cancelled = this.updateStreamWindow(userId, windowId, { state: 'cancelled', endedAt: new Date().toISOString() });
+    this.pendingWindowReasons.delete(windowId);
+    this.userLog(userId).info(`Stream window "${window.name}" cancelled`);
+    if (wasRunning) {
+      await this.stopScheduledStream(userId, window);
+    }
+    return cancelled;
+  }
+
+  // Merges changes into one of the user's stored windows, re-reading settings so concurrent updates are kept
+  private updateStreamWindow(userId: string, windowId: string, changes: Partial<StreamWindow>): StreamWindow | undefined {
+    let updated: StreamWindow | undefined;
+    const streamWindows = this.getUserSettings(userId).streamWindows.map(w => {
+      if (w.id !== windowId) return w;
+      updated = { ...w, ...changes };
+      return updated;
+    });
+    if (updated) {
+      this.updateUserSettings(userId, { streamWindows });
+    }
+    return updated;
+  }
+
+  // Starts the periodic check of scheduled windows; the timer is cleared when the server stops
+  private startStreamScheduler(): void {
+    const timer = setInterval(() => {
+      this.runStreamScheduler().catch(error => logger.error('Stream scheduler error', { error }));
+    }, STREAM_SCHEDULER_INTERVAL_MS);
+    this.addCleanupHandler(() => clearInterval(timer));
+    logger.info(`Stream scheduler started, checking every ${STREAM_SCHEDULER_INTERVAL_MS / 1000}s`);
+  }
+
+  /**
+   * Opens and closes every user's scheduled stream windows that are due
+   * @param now - Current time in ms
+   */
+  public async runStreamScheduler(now: number = Date.now()): Promise<void> {
+    if (this.schedulerBusy) {
+      return;
+    }
+    this.schedulerBusy = true;
+    try {
+      for (const userId of this.settingsStore.listUserIds()) {
+        for (const window of this.getUserSettings(userId).streamWindows) {
+          if (window.state === 'pending') {
+            await this.openStreamWindow(userId, window, now);
+          } else if (window.state === 'running' && now >= getStreamWindowEnd(window)) {
+            await this.closeStreamWindow(userId, window, now);
+          }
+        }
+      }
+    } finally {
+      this.schedulerBusy = false;
+    }
+  }
+
+  // Starts a pending window's stream once its start time has come, or marks it missed once it is over
+  private async openStreamWindow(userId: string, window: StreamWindow, now: number): Promise<void> {
+    if (now < Date.parse(window.startAt)) {
+      return;
+    }
+    if (now >= getStreamWindowEnd(window)) {
+      const reason = this.pendingWindowReasons.get(window.id) || 'window closed before it could start';
+      this.pendingWindowReasons.delete(window.id);
+      this.updateStreamWindow(userId, window.id, { state: 'missed', reason, endedAt: new Date(now).toISOString() });
+      this.userLog(userId).info(`Scheduled stream window "${window.name}" missed: ${reason}`);
+      return;
+    }
+
+    // Stay pending while the user is offline so the stream still starts if they connect before the window ends
+    const userState = this.getUserState(userId);
+    if (!userState) {
+      const reason = 'user was not connected';
+      if (this.pendingWindowReasons.get(window.id) !== reason) {
+        this.pendingWindowReasons.set(window.id, reason);
+        this.userLog(userId).info(`Scheduled stream window "${window.name}" is open but the user is not connected, waiting until ${new Date(getStreamWindowEnd(window)).toISOString()}`);
+      }
+      return;
+    }
+
+    this.pendingWindowReasons.delete(window.id);
+    this.updateStreamWindow(userId, window.id, { state: 'running', startedAt: new Date(now).toISOString() });
+    this.windowSessions.set(window.id, userState.sessionId);
+    this.sessionLog(userState).info(`Opening scheduled stream window "${window.name}" (${window.mode})`);
+    this.showTextWall(userState.session, `Scheduled stream "${window.name}" is starting.`);
+    try {
+      if (window.mode === 'managed') {
+        await this.startManagedStreamForUser(userId, 'schedule', userState.sessionId);
+      } else {
+        await this.startStreamForUser(userId, { destinationId: window.destinationId || undefined, trigger: 'schedule', sessionId: userState.sessionId });
+      }
+    } catch (error: any) {
+      this.sessionLog(userState, window.mode).error(`Scheduled stream window "${window.name}" failed to start`, { error });
+      this.windowSessions.delete(window.id);
+      this.updateStreamWindow(userId, window.id, { state: 'failed', reason: error.message, endedAt: new Date().toISOString() });
+    }
+  }
+
+  // Stops a running window's stream at the end of the window
+  private async closeStreamWindow(userId: string, window: StreamWindow, now: number): Promise<void> {
+    this.updateStreamWindow(userId, window.id, { state: 'completed', endedAt: new Date(now).toISOString() });
+    this.userLog(userId).info(`Closing scheduled stream window "${window.name}"`);
+    await this.stopScheduledStream(userId, window);
+  }
+
+  // Stops the stream a window started on the session it started on, logging instead of throwing so one user cannot break the scheduler
+  private async stopScheduledStream(userId: string, window: StreamWindow): Promise<void> {
+    const sessionId = this.windowSessions.get(window.id);
+    this.windowSessions.delete(window.id);
+    const userState = sessionId ? this.getUserState(userId, sessionId) : undefined;
+    if (!userState) {
+      this.userLog(userId).info(`Scheduled stream window "${window.name}" closed, the session it streamed from is no longer connected`);
+      return;
+    }
+    try {
+      if (window.mode === 'managed') {
+        await this.stopManagedStreamForUser(userId, userState.sessionId);
+      } else {
+        await this.stopStreamForUser(userId, userState.sessionId);
+      }
+    } catch (error: any) {
+      this.sessionLog(userState, window.mode).error(`Failed to stop scheduled stream "${window.name}"`, { error });
+    }
+  }
+
+  /**
+   * Gets which hands-free inputs a user has enabled
+   * @param userId - The user ID to look up
+   */
+  public getGlassesControlForUser(userId: string): GlassesControlSettings {
+    return this.getUserSettings(userId).glassesControl;
+  }
+
+  /**
+   * Turns hands-free inputs on or off for a user; takes effect immediately, including in a live session
+   * @param userId - The user ID to update
+   * @param changes - Inputs to change
+   * @returns The saved settings
+   * @throws {Error} If a value is not a boolean
+   */
+  public setGlassesControlForUser(userId: string, changes: Partial<GlassesControlSettings>): GlassesControlSettings {
+    for (const [key, value] of Object.entries(changes)) {
+      if (typeof value !== 'boolean') {
+        throw new Error(`${key} must be a boolean`);
+      }
+    }
+    const current = this.getGlassesControlForUser(userId);
+    const glassesControl: GlassesControlSettings = {
+      voice: changes.voice ?? current.voice,
+      button: changes.button ?? current.button,
+      headGesture: changes.headGesture ?? current.headGesture,
+    };
+    this.updateUserSettings(userId, { glassesControl });
+    this.userLog(userId).info(`Glasses control: voice=${glassesControl.voice}, button=${glassesControl.button}, headGesture=${glassesControl.headGesture}`);
+    return glassesControl;
+  }
+
+  /**
+   * Runs a command given from the glasses and confirms the result on the glasses
+   * @param userId - The user who gave the command
+   * @param command - The recognized command
+   * @param source - Which input the command came from
+   * @param sessionId - The session of the glasses the command came from, the user's most recently connected one by default
+   */
+  public async executeGlassesCommand(userId: string, command: GlassesCommand, source: GlassesCommandSource, sessionId?: string): Promise<void> {
+    const userState = this.getUserState(userId, sessionId);
+    if (!userState) {
+      this.userLog(userId).warn(`Ignoring ${command.type} command from ${source}: no active session`);
+      return;
+    }
+    this.sessionLog(userState).info(`Glasses command via ${source}: ${command.type}`);
+
+    try {
+      switch (command.type) {
+        case 'start-stream':
+          await this.startStreamForUser(userId, { trigger: source, sessionId: userState.sessionId });
+          this.showTextWall(userState.session, `Starting stream to ${describeDestination(userState.rtmpUrl)}.`);
+          break;
+        case 'stop-stream': {
+          // "stop stream" ends whatever is live, the wearer should not need to know which mode is running
+          const stopUnmanaged = userState.machine.isActive('unmanaged');
+          const stopManaged = userState.machine.isActive('managed');
+          if (!stopUnmanaged && !stopManaged) {
+            this.showTextWall(userState.session, 'No stream is running.');
+            break;
+          }
+          if (stopUnmanaged) await this.stopStreamForUser(userId, userState.sessionId);
+          if (stopManaged) await this.stopManagedStreamForUser(userId, userState.sessionId);
+          this.showTextWall(userState.session, 'Stopping stream.');
+          break;
+        }
+        case 'start-managed-stream':
+          await this.startManagedStreamForUser(userId, source, userState.sessionId);
+          this.showTextWall(userState.session, 'Going live with a managed stream.');
+          break;
+        case 'stop-managed-stream':
+          await this.stopManagedStreamForUser(userId, userState.sessionId);
+          this.showTextWall(userState.session, 'Stopping managed stream.');
+          break;
+        case 'switch-destination': {
+          const destination = findDestinationByName(command.destinationName, this.getDestinationsForUser(userId));
+          if (!destination) {
+            this.showTextWall(userState.session, `No single destination matches "${command.destinationName}".`);
+            break;
+          }
+          const restart = userState.machine.isActive('unmanaged');
+          this.setActiveDestinationForUser(userId, destination.id);
+          if (restart) {
+            await this.restartStream(userState, { destinationId: destination.id, trigger: source });
+          }
+          this.showTextWall(userState.session, `Destination switched to "${destination.name}"${restart ? ', stream restarting' : ''}.`);
+          break;
+        }
+      }
+    } catch (error: any) {
+      this.sessionLog(userState).error(`Glasses command ${command.type} failed`, { source, error });
+      this.showTextWall(userState.session, `Command failed: ${error.message}`);
+    }
+  }
+
+  // Starts the session's unmanaged stream if nothing is live on it, otherwise stops it; used by button and head gestures
+  private async toggleStreamFromGlasses(userState: UserStreamState, source: GlassesCommandSource): Promise<void> {
+    const live = userState.machine.isActive('unmanaged') || userState.machine.isActive('managed');
+    await this.executeGlassesCommand(userState.userId, { type: live ? 'stop-stream' : 'start-stream' }, source, userState.sessionId);
+  }
+
+  /**
+   * Gets the low battery policy for a user's streams
+   * @param userId - The user ID to get the policy for
+   */
+  public getBatteryPolicyForUser(userId: string): BatteryPolicy {
+    return this.getUserSettings(userId).batteryPolicy;
+  }
+
+  /**
+   * Updates the low battery policy for a user
+   * @param userId - The user ID to update
+   * @param changes - Policy fields to change
+   * @returns The saved policy
+   * @throws {Error} If the update is invalid or the step-down profile does not exist
+   */
+  public setBatteryPolicyForUser(userId: string, changes: Partial<BatteryPolicy>): BatteryPolicy {
+    const batteryPolicy = { ...this.getBatteryPolicyForUser(userId), ...changes };
+    const errors = validateBatteryPolicy(batteryPolicy);
+    if (batteryPolicy.stepDownProfileId && !findEncodingProfile(batteryPolicy.stepDownProfileId, this.getUserSettings(userId).customEncodingProfiles)) {
+      errors.push(`Unknown encoding profile: ${batteryPolicy.stepDownProfileId}`);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid battery policy: ${errors.join('; ')}`);
+    }
+    this.updateUserSettings(userId, { batteryPolicy });
+    this.userLog(userId).info('Battery policy updated', { batteryPolicy });
+    return batteryPolicy;
+  }
+
+  /**
+   * Gets the latest battery report from a user's glasses
+   * @param userId - The user ID to look up
+   * @param sessionId - The session of the glasses to look up, the user's most recently connected one by default
+   * @returns The battery status, or null if the user is not connected or the glasses have not reported yet
+   */
+  public getBatteryStatusForUser(userId: string, sessionId?: string): BatteryStatus | null {
+    return this.getUserState(userId, sessionId)?.battery ?? null;
+  }
+
+  // Records a battery report and applies the user's battery policy to the streams of the glasses that sent it
+  private async handleBatteryUpdate(userState: UserStreamState, battery: BatteryStatus): Promise<void> {
+    const { userId } = userState;
+    userState.battery = battery;
+    this.streamEvents.publish(userId, 'battery', battery, userState.sessionId);
+
+    const policy = this.getBatteryPolicyForUser(userId);
+    const actions = evaluateBatteryPolicy(policy, battery, userState.batteryPolicyState, {
+      unmanaged: userState.machine.isActive('unmanaged'),
+      managed: userState.machine.isActive('managed'),
+    });
+    for (const action of actions) {
+      await this.applyBatteryAction(userId, userState, action, policy, battery);
+    }
+  }
+
+  // Carries out one battery policy action; every action is logged and noted in the stream history
+  private async applyBatteryAction(userId: string, userState: UserStreamState, action: BatteryAction, policy: BatteryPolicy, battery: BatteryStatus): Promise<void> {
+    const { sessionId } = userState;
+    this.sessionLog(userState).info(`Battery policy: ${action} at ${battery.level}%`);
+    const note = { message: `${action} at ${battery.level}%` };
+    this.streamHistory.recordEvent(userId, sessionId, 'unmanaged', 'battery-policy', note);
+    this.streamHistory.recordEvent(userId, sessionId, 'managed', 'battery-policy', note);
+
+    switch (action) {
+      case 'warn':
+        this.showTextWall(userState.session, `Battery low (${battery.level}%). Streaming drains the battery quickly.`);
+        break;
+      case 'step-down': {
+        if (userState.encodingProfileId === policy.stepDownProfileId) {
+          break;
+        }
+        // Restart to the same destination with the lighter profile
+        const target: StartStreamOptions = userState.destinationId ? { destinationId: userState.destinationId } : { rtmpUrl: userState.rtmpUrl };
+        try {
+          await this.restartStream(userState, { ...target, encodingProfileId: policy.stepDownProfileId!, trigger: 'battery-policy' });
+          this.showTextWall(userState.session, `Battery low (${battery.level}%). Switched stream to lower quality to save power.`);
+        } catch (error: any) {
+          this.sessionLog(userState, 'unmanaged').error('Battery step-down failed', { error });
+        }
+        break;
+      }
+      case 'stop':
+        this.showTextWall(userState.session, `Battery critical (${battery.level}%). Stopping stream to save power.`);
+        try {
+          if (userState.machine.isActive('unmanaged')) await this.stopStreamForUser(userId, sessionId);
+          if (userState.machine.isActive('managed')) await this.stopManagedStreamForUser(userId, sessionId);
+        } catch (error: any) {
+          this.sessionLog(userState).error('Battery stop failed', { error });
+        }
+        break;
+    }
+  }
+
+  // Whether this server has a recording relay, without one every user's recording mode is treated as off
+  public isRecordingAvailable(): boolean {
+    return this.recordingRelay !== null;
+  }
+
+  /**
+   * Gets whether a user's unmanaged streams are recorded
+   * @param userId - The user ID to look up
+   */
+  public getRecordingModeForUser(userId: string): RecordingMode {
+    return this.getUserSettings(userId).recordingMode;
+  }
+
+  /**
+   * Sets whether a user's unmanaged streams are recorded; takes effect when the next stream starts
+   * @param userId - The user ID to update
+   * @param recordingMode - off, record, or record-and-forward to also re-push to the destination
+   * @returns The saved mode
+   * @throws {Error} If the mode is unknown
+   */
+  public setRecordingModeForUser(userId: string, recordingMode: RecordingMode): RecordingMode {
+    if (!RECORDING_MODES.includes(recordingMode)) {
+      throw new Error(`recordingMode must be one of: ${RECORDING_MODES.join(', ')}`);
+    }
+    this.updateUserSettings(userId, { recordingMode });
+    this.userLog(userId).info(`Recording mode set to ${recordingMode}`);
+    return recordingMode;
+  }
+
+  // Limits after which finished recordings are deleted
+  public getRecordingRetention(): RecordingRetention {
+    return this.recordingStore.getRetention();
+  }
+
+  /**
+   * Lists a user's recordings, newest first
+   * @param userId - The owner of the recordings
+   */
+  public getRecordingsForUser(userId: string): RecordingSummary[] {
+    return this.recordingStore.listForOwner(userId).map(recording => this.recordingStore.summarize(recording));
+  }
+
+  /**
+   * Finds one of a user's recordings for download
+   * @param userId - The owner of the recording
+   * @param recordingId - The recording to download
+   * @returns The recording and its segment files in playback order, or undefined if the user has no such recording
+   */
+  public getRecordingFilesForUser(userId: string, recordingId: string): { recording: RecordingSummary; segmentPaths: string[] } | undefined {
+    const recording = this.recordingStore.get(recordingId);
+    if (!recording || recording.ownerUserId !== userId) {
+      return undefined;
+    }
+    return { recording: this.recordingStore.summarize(recording), segmentPaths: this.recordingStore.getSegmentPaths(recording) };
+  }
+
+  /**
+   * Deletes one of a user's recordings and its files
+   * @param userId - The owner of the recording
+   * @param recordingId - The recording to delete
+   * @returns The deleted recording, or undefined if the user has no such recording
+   * @throws {RecordingError} If the recording is still in progress
+   */
+  public deleteRecordingForUser(userId: string, recordingId: string): RecordingSummary | undefined {
+    const recording = this.recordingStore.delete(userId, recordingId);
+    if (!recording) {
+      return undefined;
+    }
+    this.userLog(userId).info(`Recording ${recordingId} deleted`);
+    this.streamEvents.publish(userId, 'recordings', { recordings: this.getRecordingsForUser(userId) });
+    return this.recordingStore.summarize(recording);
+  }
+
+  /**
+   * Deletes finished recordings past the retention limits
+   * @param now - Current time in ms
+   */
+  public enforceRecordingRetention(now: number = Date.now()): void {
+    const owners = new Set<string>();
+    for (const recording of this.recordingStore.enforceRetention(now)) {
+      this.userLog(recording.ownerUserId).info(`Recording ${recording.id} deleted by retention limits`);
+      owners.add(recording.ownerUserId);
+    }
+    for (const userId of owners) {
+      this.streamEvents.publish(userId, 'recordings', { recordings: this.getRecordingsForUser(userId) });
+    }
+  }
+
+  private startRecordingRetention(): void {
+    const timer = setInterval(() => {
+      try {
+        this.enforceRecordingRetention();
+      } catch (error: any) {
+        logger.error('Recording retention error', { error });
+      }
+    }, RECORDING_RETENTION_INTERVAL_MS);
+    this.addCleanupHandler(() => clearInterval(timer));
+  }
+
+  /**
+   * Points the unmanaged stream at the recording relay if the user records their streams
+   * @param userId - The user starting the stream
+   * @param userState - The user's session state, with the destination already chosen
+   * @param newSession - Whether this start begins a new stream session; a retry continues the current recording
+   * @returns The URL the glasses publish to: the relay's ingest, or the destination itself when not recording
+   * @throws {RecordingError} If recording is on but the relay cannot be opened
+   */
+  private async openStreamRecording(userId: string, userState: UserStreamState, newSession: boolean): Promise<string> {
+    if (newSession) {
+      await this.finishStreamRecording(userId, userState);
+    }
+    let active = userState.recording;
+    const mode = this.getRecordingModeForUser(userId);
+    if (!active) {
+      if (mode === 'off' || !this.recordingRelay) {
+        return userState.rtmpUrl;
+      }
+      const forwardUrl = mode === 'record-and-forward' ? userState.rtmpUrl : null;
+      const recording = this.recordingStore.create(userId, {
+        forwardedTo: forwardUrl ? maskRtmpUrl(forwardUrl) : null,
+        encodingProfileId: userState.encodingProfileId ?? DEFAULT_ENCODING_PROFILE_ID,
+      });
+      active = { recordingId: recording.id, forwardUrl, relay: null };
+      userState.recording = active;
+      this.sessionLog(userState, 'unmanaged').info(`Recording stream as ${recording.id}${forwardUrl ? `, forwarding to ${maskRtmpUrl(forwardUrl)}` : ''}`);
+      this.streamEvents.publish(userId, 'recordings', { recordings: this.getRecordingsForUser(userId) });
+    } else if (active.relay) {
+      // A retry replaces the relay the failed stream used
+      await active.relay.stop();
+      active.relay = null;
+    }
+
+    const relay = await this.recordingRelay!.open({
+      outputDir: this.recordingStore.getSegmentDir(active.recordingId),
+      firstSegmentNumber: this.recordingStore.getNextSegmentNumber(active.recordingId),
+      forwardUrl: active.forwardUrl,
+    });
+    const recordingState = active;
+    recordingState.relay = relay;
+    relay.ended.then(error => {
+      if (recordingState.relay === relay) {
+        recordingState.relay = null;
+      }
+      if (error) {
+        this.sessionLog(userState, 'unmanaged').warn(`Recording relay for ${recordingState.recordingId} failed`, { error });
+      }
+    });
+    return relay.ingestUrl;
+  }
+
+  // Ends the recording of a stream session: stops its relay, keeps what was written and applies the retention limits
+  private async finishStreamRecording(userId: string, userState: UserStreamState): Promise<void> {
+    const active = userState.recording;
+    if (!active) {
+      return;
+    }
+    userState.recording = null;
+    try {
+      await active.relay?.stop();
+      const recording = this.recordingStore.finish(active.recordingId);
+      if (recording) {
+        this.sessionLog(userState, 'unmanaged').info(`Recording ${recording.id} complete: ${recording.segments.length} segments, ${recording.sizeBytes} bytes`);
+      } else {
+        this.sessionLog(userState, 'unmanaged').info(`Recording ${active.recordingId} received no data and was discarded`);
+      }
+      this.streamEvents.publish(userId, 'recordings', { recordings: this.getRecordingsForUser(userId) });
+      this.enforceRecordingRetention();
+    } catch (error: any) {
+      this.sessionLog(userState, 'unmanaged').error(`Failed to finish recording ${active.recordingId}`, { error });
+    }
+  }
+
+  // Cancels any pending retry and clears the retry counters
+  private resetStreamRetry(userState: UserStreamState): void {
+    if (userState.retry.timer) {
+      clearTimeout(userState.retry.timer);
+    }
+    userState.retry = createRetryState();
+  }
+
+  // Schedules the next restart of a session's failed unmanaged stream, or gives up per the user's retry policy
+  private scheduleStreamRetry(userState: UserStreamState, errorDetails: string | undefined): void {
+    if (!this.isSessionActive(userState) || !userState.streamWanted || userState.retry.timer) {
+      return;
+    }
+    const { userId } = userState;
+
+    const policy = this.getRetryPolicyForUser(userId);
+    const retry = userState.retry;
+    retry.lastError = errorDetails || null;
+    if (!retry.firstFailureAt) {
+      retry.firstFailureAt = new Date();
+    }
+
+    const giveUpReason = getGiveUpReason(policy, retry);
+    if (giveUpReason) {
+      retry.gaveUp = true;
+      retry.nextAttemptAt = null;
+      userState.streamWanted = false;
+      userState.machine.observe('unmanaged', 'error', giveUpReason);
+      this.finishStreamRecording(userId, userState);
+      this.sessionLog(userState, 'unmanaged').info(`Not retrying stream: ${giveUpReason}`);
+      this.showTextWall(userState.session, `Stream error: ${errorDetails}. Not restarting: ${giveUpReason}.`);
+      this.streamEvents.publish(userId, 'stream-retry', this.getRetryInfo(userState), userState.sessionId);
+      return;
+    }
+
+    const attempt = retry.attempt + 1;
+    const delay = computeRetryDelay(policy, attempt);
+    retry.nextAttemptAt = new Date(Date.now() + delay);
+    retry.timer = setTimeout(() => {
+      retry.timer = null;
+      retry.nextAttemptAt = null;
+      retry.attempt = attempt;
+      this.retryStream(userState);
+    }, delay);
+    userState.machine.observe('unmanaged', 'retrying', `retry ${attempt} scheduled`);
+
+    this.sessionLog(userState, 'unmanaged').info(`Retrying stream in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+    this.showTextWall(userState.session, `Stream error: ${errorDetails}. Retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt}/${policy.maxAttempts})...`);
+    this.streamEvents.publish(userId, 'stream-retry', this.getRetryInfo(userState), userState.sessionId);
+  }
+
+  // Restarts a session's unmanaged stream to the same destination after a failure
+  private async retryStream(userState: UserStreamState): Promise<void> {
+    if (!this.isSessionActive(userState) || !userState.streamWanted) {
+      return;
+    }
+    const { userId } = userState;
+
+    let profile: EncodingProfile;
+    try {
+      profile = this.getEncodingProfileForUser(userId, userState.encodingProfileId || undefined);
+    } catch {
+      // The profile was deleted since the stream started, fall back to the user's current selection
+      profile = this.getEncodingProfileForUser(userId);
+    }
+
+    this.sessionLog(userState, 'unmanaged').info(`Retry attempt ${userState.retry.attempt} to URL ${maskRtmpUrl(userState.rtmpUrl)}`);
+    this.streamHistory.recordEvent(userId, userState.sessionId, 'unmanaged', 'retry', { message: `attempt ${userState.retry.attempt}` });
+    this.streamEvents.publish(userId, 'stream-retry', this.getRetryInfo(userState), userState.sessionId);
+    try {
+      await userState.machine.request('unmanaged', 'starting', `retry attempt ${userState.retry.attempt}`);
+    } catch (error: any) {
+      if (userState.machine.getPhase('unmanaged') === 'starting') {
+        this.sessionLog(userState, 'unmanaged').info('Skipping retry, the stream is already being started');
+        return;
+      }
+      // The managed stream did not settle in time, try again later
+      this.scheduleStreamRetry(userState, error.message);
+      return;
+    }
+    try {
+      const publishUrl = await this.openStreamRecording(userId, userState, false);
+      if (!this.isSessionActive(userState)) {
+        // The glasses disconnected while the relay was opening
+        this.finishStreamRecording(userId, userState);
+        return;
+      }
+      await userState.session.camera.startStream({
+        rtmpUrl: publishUrl,
+        video: profile.video,
+        audio: profile.audio,
+      });
+    } catch (error: any) {
+      this.sessionLog(userState, 'unmanaged').error(`Retry attempt ${userState.retry.attempt} failed`, { error });
+      this.setStreamStatus(userId, userState, this.createErrorStreamStatus(error.message), 'retry failed');
+      this.scheduleStreamRetry(userState, error.message);
+    }
+  }
+
+  /**
+   * Subscribes to a user's stream status updates
+   * @param userId - The user whose updates to receive
+   * @param listener - Called with each RtmpStreamStatus / ManagedStreamStatus update
+   * @returns A function that ends the subscription
+   */
+  public subscribeToStreamEvents(userId: string, listener: StreamEventListener): () => void {
+    return this.streamEvents.subscribe(userId, listener);
+  }
+
+  // Pushes a session's current unmanaged stream status to the user's open webviews
+  private publishStreamStatus(userState: UserStreamState): void {
+    this.streamEvents.publish(userState.userId, 'stream-status', userState.streamStatus, userState.sessionId);
+  }
+
+  // Pushes a session's managed stream status to the user's open webviews and shared viewer pages
+  private publishManagedStreamStatus(userState: UserStreamState, status: ManagedStreamStatus | null): void {
+    this.streamEvents.publish(userState.userId, 'managed-stream-status', status, userState.sessionId);
+  }
+
+  // Pushes the list of the user's connected sessions to their open webviews
+  private publishSessions(userId: string): void {
+    this.streamEvents.publish(userId, 'sessions', { sessions: this.getSessionsForUser(userId) });
+  }
+
+  // Records an unmanaged stream status, moves the state machine to the matching phase and pushes the status to the webviews
+  private setStreamStatus(userId: string, userState: UserStreamState, status: RtmpStreamStatus, source: string): void {
+    userState.streamStatus = { ...status, type: GlassesToCloudMessageType.RTMP_STREAM_STATUS, timestamp: new Date() };
+    userState.machine.observe('unmanaged', phaseForStreamStatus(status.status), source);
+    this.publishStreamStatus(userState);
+    if (status.stats) {
+      this.recordStreamStats(userId, userState, status.stats);
+    }
+  }
+
+  // Adds a stats report to the stream's series, re-evaluates health and pushes both to the webviews
+  private recordStreamStats(userId: string, userState: UserStreamState, stats: NonNullable<RtmpStreamStatus['stats']>): void {
+    const sample = userState.stats.add(stats);
+    this.updateStreamHealth(userId, userState);
+    this.streamEvents.publish(userId, 'stream-stats', { sample, health: userState.streamHealth }, userState.sessionId);
+  }
+
+  // Target bitrate and frame rate of the profile the unmanaged stream was started with
+  private getStreamStatsTarget(userId: string, userState: UserStreamState): { bitrate: number; frameRate: number } {
+    let profile: EncodingProfile;
+    try {
+      profile = this.getEncodingProfileForUser(userId, userState.encodingProfileId || undefined);
+    } catch {
+      // The profile was deleted while streaming
+      profile = this.getEncodingProfileForUser(userId);
+    }
+    return { bitrate: profile.video.bitrate, frameRate: profile.video.frameRate };
+  }
+
+  // Re-computes the health of a live unmanaged stream and warns the wearer when it gets worse
+  private updateStreamHealth(userId: string, userState: UserStreamState, now: number = Date.now()): void {
+    if (userState.machine.getPhase('unmanaged') !== 'live') {
+      return;
+    }
+    const previous = userState.streamHealth?.health ?? 'unknown';
+    const report = evaluateStreamHealth(
+      userState.stats.list(now - DEFAULT_STREAM_HEALTH_THRESHOLDS.windowMs),
+      this.getStreamStatsTarget(userId, userState),
+      DEFAULT_STREAM_HEALTH_THRESHOLDS,
+      now
+    );
+    userState.streamHealth = report;
+    if (report.health === previous) {
+      return;
+    }
+
+    const log = this.sessionLog(userState, 'unmanaged');
+    log.info(`Stream health changed from ${previous} to ${report.health}`, { reasons: report.reasons });
+    this.streamHistory.recordEvent(userId, userState.sessionId, 'unmanaged', 'health', { status: report.health, message: report.reasons.join('; ') });
+    if (isHealthWorse(previous, report.health)
+      && (userState.lastHealthWarningAt === null || now - userState.lastHealthWarningAt >= STREAM_HEALTH_WARNING_COOLDOWN_MS)) {
+      userState.lastHealthWarningAt = now;
+      const reason = report.reasons[0] ? `: ${report.reasons[0]}` : '';
+      this.showTextWall(userState.session, `Stream ${report.health}${reason}`);
+    }
+  }
+
+  // Starts the periodic health check of live streams; the timer is cleared when the server stops
+  private startStreamHealthMonitor(): void {
+    const timer = setInterval(() => {
+      for (const userState of this.sessionStates.values()) {
+        const previous = userState.streamHealth;
+        this.updateStreamHealth(userState.userId, userState);
+        if (userState.streamHealth && userState.streamHealth.health !== previous?.health) {
+          this.streamEvents.publish(userState.userId, 'stream-stats', { sample: null, health: userState.streamHealth }, userState.sessionId);
+        }
+      }
+    }, STREAM_HEALTH_CHECK_INTERVAL_MS);
+    this.addCleanupHandler(() => clearInterval(timer));
+  }
+
+  /**
+   * Gets the recent stats and current health of a user's unmanaged stream
+   * @param userId - The user ID to look up
+   * @param sessionId - The session to look up, the user's most recently connected one by default
+   * @returns The samples, oldest first, or null if the user has no such session
+   */
+  public getStreamStatsForUser(userId: string, sessionId?: string): StreamStatsView | null {
+    const userState = this.getUserState(userId, sessionId);
+    if (!userState) {
+      return null;
+    }
+    return {
+      samples: userState.stats.list(),
+      health: userState.streamHealth,
+      target: this.getStreamStatsTarget(userId, userState),
+    };
+  }
+
+  // Records a managed stream status the same way; the status is cleared once the stream is idle
+  private setManagedStreamStatus(userId: string, userState: UserStreamState, status: ManagedStreamStatus, source: string): void {
+    const phase = phaseForManagedStreamStatus(status.status);
+    userState.managedStreamStatus = { ...status, timestamp: new Date() };
+    userState.machine.observe('managed', phase, source);
+    // Push the status as received, including 'stopped', before it is cleared
+    this.publishManagedStreamStatus(userState, userState.managedStreamStatus);
+    if (phase === 'idle') {
+      userState.managedStreamStatus = null;
+    }
+  }
+
+  private getInitialStreamStatus(): RtmpStreamStatus {
+    return { type: GlassesToCloudMessageType.RTMP_STREAM_STATUS, status: 'stopped', timestamp: new Date() };
+  }
+
+  private createErrorStreamStatus(errorDetails: string): RtmpStreamStatus {
+    return { ...this.getInitialStreamStatus(), status: 'error', errorDetails };
+  }
+
+  /**
+   * Gets the state machine phases of a user's streams
+   * @param userId - The user ID to look up
+   * @param sessionId - The session to look up, the user's most recently connected one by default
+   * @returns Both phases, or null if the user has no such session
+   */
+  public getStreamPhasesForUser(userId: string, sessionId?: string): Record<StreamMode, StreamPhase> | null {
+    return this.getUserState(userId, sessionId)?.machine.snapshot() ?? null;
+  }
+
+  /**
+   * Updates the RTMP URL for a specific user
+   * @param userId - The user ID to update the RTMP URL for
+   * @param newUrl - The new RTMP URL to set
+   * @throws {RtmpUrlValidationError} If the URL is invalid
+   */
+  public setRtmpUrlForUser(userId: string, newUrl: string): void {
+    // Strict validation of scheme, host, port, app and stream key
+    parseRtmpUrl(newUrl);
+
+    // Save to persistent storage first, updating the active destination or creating one
+    const active = this.getActiveDestinationForUser(userId);
+    if (active) {
+      this.updateDestinationForUser(userId, active.id, { rtmpUrl: newUrl });
+    } else {
+      this.addDestinationForUser(userId, 'Default', newUrl, true);
+    }
+
+    const userStates = this.getUserStates(userId);
+    if (userStates.length > 0) {
+      this.userLog(userId).info(`RTMP URL updated: ${maskRtmpUrl(newUrl)}`);
+
+      // Notify each of the user's glasses that the URL has been updated
+      for (const userState of userStates) {
+        this.showTextWall(userState.session, `RTMP URL updated to: ${maskRtmpUrl(newUrl)}`);
+      }
+    } else {
+      this.userLog(userId).info(`RTMP URL saved (no active session): ${maskRtmpUrl(newUrl)}`);
+    }
+  }
+
+  /**
+   * Gets the RTMP URL for a specific user
+   * @param userId - The user ID to get the RTMP URL for
+   * @returns The user's RTMP URL or the default URL if user not found
+   */
+  public getRtmpUrlForUser(userId: string): string | undefined {
+    // Check the active destination first, then active state, then default
+    const activeDestination = this.getActiveDestinationForUser(userId);
+    if (activeDestination) {
+      return activeDestination.rtmpUrl;
+    }
+
+    return this.getUserState(userId)?.rtmpUrl || this.defaultRtmpUrl;
+  }
+
+  /**
+   * Gets the default RTMP URL
+   * @returns The default RTMP URL
+   */
+  public getDefaultRtmpUrl(): string {
+    return this.defaultRtmpUrl;
+  }
+
+  /**
+   * Gets the stream status for a specific user
+   * @param userId - The user ID to get the stream status for
+   * @param sessionId - The session to look up, the user's most recently connected one by default
+   * @returns The session's stream status or a default stopped status
+   */
+  public getStreamStatusForUser(userId: string, sessionId?: string): RtmpStreamStatus | undefined {
+    return this.getUserState(userId, sessionId)?.streamStatus || this.getInitialStreamStatus();
+  }
+
+  public streamStoppedStatus: RtmpStreamStatus = { type: GlassesToCloudMessageType.RTMP_STREAM_STATUS, status: 'stopped', timestamp: new Date() };
+
+  /**
+   * Gets the managed stream status for a specific user
+   * @param userId - The user ID to get the managed stream status for
+   * @param sessionId - The session to look up, the user's most recently connected one by default
+   * @returns The session's managed stream status or null
+   */
+  public getManagedStreamStatusForUser(userId: string, sessionId?: string): ManagedStreamStatus | null {
+    const userState = this.getUserState(userId, sessionId);
+    const status = userState?.managedStreamStatus || null;
+    if (userState) {
+      this.sessionLog(userState, 'managed').debug('Getting managed stream status', { status });
+    }
+    return status;
+  }
+
+  // Method to start stream for a user, on the session given in the options or their most recently connected one
+  public async startStreamForUser(userId: string, options: StartStreamOptions = {}): Promise<void> {
+    const userState = this.getUserState(userId, options.sessionId);
+    if (!userState) {
+      this.userLog(userId).error('No active session for user');
+      throw new Error("No active session for user to start stream.");
+    }
+    const profile = this.getEncodingProfileForUser(userId, options.encodingProfileId);
+
+    let destination: RtmpDestination | undefined;
+    if (options.destinationId) {
+      destination = this.getDestinationsForUser(userId).find(d => d.id === options.destinationId);
+      if (!destination) {
+        throw new DestinationNotFoundError(options.destinationId);
+      }
+    }
+    if (options.rtmpUrl) {
+      parseRtmpUrl(options.rtmpUrl);
+    }
+
+    // Waits while the managed stream is starting or stopping; throws StreamStateError on conflict
+    await userState.machine.request('unmanaged', 'starting', `start requested (${options.trigger || 'webview'})`);
+    this.assertSessionActive(userState);
+
+    const urlToUse = options.rtmpUrl || destination?.rtmpUrl || userState.rtmpUrl || this.defaultRtmpUrl;
+    userState.rtmpUrl = urlToUse; // Update the user's state with the URL being used
+    userState.destinationId = options.rtmpUrl ? null : (destination?.id ?? userState.destinationId);
+    userState.encodingProfileId = profile.id;
+    userState.streamWanted = true;
+    this.resetStreamRetry(userState); // A manual start begins a fresh retry series
+
+    this.sessionLog(userState, 'unmanaged').info(`Attempting to start stream to URL ${maskRtmpUrl(urlToUse)} with profile ${profile.id}`);
+    this.streamHistory.startEntry(userId, userState.sessionId, 'unmanaged', maskRtmpUrl(urlToUse), options.trigger);
+    this.showTextWall(userState.session, "Starting RTMP stream via web...");
+    try {
+      const publishUrl = await this.openStreamRecording(userId, userState, true);
+      this.assertSessionActive(userState);
+      await userState.session.camera.startStream({
+        rtmpUrl: publishUrl,
+        video: profile.video,
+        audio: profile.audio,
+      });
+      this.assertSessionActive(userState);
+
+      this.sessionLog(userState, 'unmanaged').info('RTMP stream requested successfully');
+      // Status will be updated by onStatus handler
+    } catch (error: any) {
+      this.sessionLog(userState, 'unmanaged').error('Failed to start stream', { error });
+      this.showTextWall(userState.session, `Failed to start stream: ${error.message}`);
+      userState.streamWanted = false;
+      this.setStreamStatus(userId, userState, this.createErrorStreamStatus(error.message), 'start failed');
+      this.streamHistory.endEntry(userId, userState.sessionId, 'unmanaged', 'error', error.message);
+      this.finishStreamRecording(userId, userState);
+      throw error;
+    }
+  }
+
+  // Method to stop stream for a user, on the given session or their most recently connected one
+  public async stopStreamForUser(userId: string, sessionId?: string): Promise<void> {
+    const userState = this.getUserState(userId, sessionId);
+    if (!userState) {
+      this.userLog(userId).error('No active session for user');
+      throw new Error("No active session for user to stop stream.");
+    }
+    this.sessionLog(userState, 'unmanaged').info('Attempting to stop stream');
+    // A manual stop cancels any pending automatic restart
+    userState.streamWanted = false;
+    this.resetStreamRetry(userState);
+    // Only a running stream reports 'stopped' back; a failed or retrying one is idle as soon as the stop is sent
+    const running = userState.machine.getPhase('unmanaged') === 'starting' || userState.machine.getPhase('unmanaged') === 'live';
+    if (running) {
+      await userState.machine.request('unmanaged', 'stopping', 'stop requested');
+    }
+    this.streamHistory.recordEvent(userId, userState.sessionId, 'unmanaged', 'stop-requested');
+    this.showTextWall(userState.session, "Stopping RTMP stream via web...");
+    try {
+      await userState.session.camera.stopStream();
+      this.sessionLog(userState, 'unmanaged').info('Stream stop requested successfully');
+      if (!running) {
+        userState.machine.observe('unmanaged', 'idle', 'stop sent to a stream that was not running');
+        this.streamHistory.endEntry(userId, userState.sessionId, 'unmanaged', 'stopped');
+        this.finishStreamRecording(userId, userState);
+      }
+      // Otherwise the status will be updated by onStatus handler
+    } catch (error: any) {
+      this.sessionLog(userState, 'unmanaged').error('Failed to stop stream', { error });
+      this.showTextWall(userState.session, `Failed to stop stream: ${error.message}`);
+      this.setStreamStatus(userId, userState, this.createErrorStreamStatus(error.message), 'stop failed');
+      throw error;
+    }
+  }
+
+  // Restarts a session's unmanaged stream with new settings. The glasses cannot change a running stream, so it is stopped first and started again once the glasses report it stopped.
+  private async restartStream(userState: UserStreamState, options: StartStreamOptions): Promise<void> {
+    if (userState.machine.isActive('unmanaged')) {
+      await this.stopStreamForUser(userState.userId, userState.sessionId);
+      await userState.machine.waitForPhase('unmanaged', ['idle', 'error']);
+      this.assertSessionActive(userState);
+    }
+    await this.startStreamForUser(userState.userId, { ...options, sessionId: userState.sessionId });
+  }
+
+  // Method to start managed stream for a user, on the given session or their most recently connected one; trigger is recorded in stream history
+  public async startManagedStreamForUser(userId: string, trigger: string = 'webview', sessionId?: string): Promise<any> {
+    const userState = this.getUserState(userId, sessionId);
+    if (!userState) {
+      this.userLog(userId).error('No active session for user');
+      throw new Error("No active session for user to start managed stream.");
+    }
+
+    // Waits while the unmanaged stream is starting or stopping; throws StreamStateError on conflict
+    await userState.machine.request('managed', 'starting', `start requested (${trigger})`);
+    this.assertSessionActive(userState);
+
+    this.sessionLog(userState, 'managed').info('Attempting to start managed stream');
+    this.streamHistory.startEntry(userId, userState.sessionId, 'managed', null, trigger);
+    this.showTextWall(userState.session, "Starting managed RTMP stream via web...");
+    try {
+      const urls = await userState.session.camera.startManagedStream();
+      this.assertSessionActive(userState);
+      this.sessionLog(userState, 'managed').info('Managed stream URLs received', { urls });
+      this.streamHistory.setManagedStreamId(userId, userState.sessionId, urls.streamId);
+      
+      // Initialize managed stream status
+      this.setManagedStreamStatus(userId, userState, {
+        type: CloudToAppMessageType.MANAGED_STREAM_STATUS,
+        status: 'initializing',
+        hlsUrl: urls.hlsUrl,
+        dashUrl: urls.dashUrl,
+        webrtcUrl: urls.webrtcUrl,
+        streamId: urls.streamId,
+        timestamp: new Date()
+      }, 'managed stream URLs received');
+      
+      return urls;
+    } catch (error: any) {
+      this.sessionLog(userState, 'managed').error('Failed to start managed stream', { error });
+      this.showTextWall(userState.session, `Failed to start managed stream: ${error.message}`);
+      this.setManagedStreamStatus(userId, userState, {
+        type: CloudToAppMessageType.MANAGED_STREAM_STATUS,
+        status: 'error',
+        message: error.message,
+        timestamp: new Date()
+      }, 'start failed');
+      this.streamHistory.endEntry(userId, userState.sessionId, 'managed', 'error', error.message);
+      throw error;
+    }
+  }
+
+  // Method to stop managed stream for a user, on the given session or their most recently connected one
+  public async stopManagedStreamForUser(userId: string, sessionId?: string): Promise<void> {
+    const userState = this.getUserState(userId, sessionId);
+    if (!userState) {
+      this.userLog(userId).error('No active session for user');
+      throw new Error("No active session for user to stop managed stream.");
+    }
+
+    // Stopping is always sent, even when the state machine sees no stream, so orphaned cloud streams can be cleaned up.
+    // Only a running stream waits for the cloud's 'stopped' status.
+    const running = userState.machine.getPhase('managed') === 'starting' || userState.machine.getPhase('managed') === 'live';
+    if (running) {
+      await userState.machine.request('managed', 'stopping', 'stop requested');
+    }
+
+    this.sessionLog(userState, 'managed').info('Attempting to stop managed stream');
+    this.streamHistory.recordEvent(userId, userState.sessionId, 'managed', 'stop-requested');
+    this.showTextWall(userState.session, "Stopping managed RTMP stream via web...");
+    try {
+      await userState.session.camera.stopManagedStream();
+      this.sessionLog(userState, 'managed').info('Managed stream stop requested successfully');
+      if (!running && !userState.session.camera.isManagedStreamActive()) {
+        userState.machine.observe('managed', 'idle', 'stop sent to a stream that was not running');
+        userState.managedStreamStatus = null;
+        this.streamHistory.endEntry(userId, userState.sessionId, 'managed', 'stopped');
+      }
+      // Otherwise wait for the 'stopped' status from the cloud
+    } catch (error: any) {
+      this.sessionLog(userState, 'managed').error('Failed to stop managed stream', { error });
+      this.showTextWall(userState.session, `Failed to stop managed stream: ${error.message}`);
+      this.setManagedStreamStatus(userId, userState, {
+        ...(userState.managedStreamStatus || { type: CloudToAppMessageType.MANAGED_STREAM_STATUS }),
+        status: 'error',
+        message: error.message,
+        timestamp: new Date()
+      }, 'stop failed');
+      throw error;
+    }
+  }
+
+  // Brings a session's state machine in line with what the SDK reports, e.g. after the glasses reconnect
+  private reconcileStreamState(userState: UserStreamState): void {
+    const { userId } = userState;
+    const camera = userState.session.camera;
+
+    const sdkStreaming = camera.isCurrentlyStreaming();
+    const unmanagedPhase = userState.machine.getPhase('unmanaged');
+    if (sdkStreaming && !userState.machine.isActive('unmanaged')) {
+      const status = camera.getStreamStatus();
+      this.setStreamStatus(userId, userState, status || { ...this.getInitialStreamStatus(), status: 'active' }, 'reconciled: SDK reports a running stream');
+    } else if (!sdkStreaming && unmanagedPhase === 'live') {
+      this.setStreamStatus(userId, userState, this.getInitialStreamStatus(), 'reconciled: SDK reports no stream');
+      this.streamHistory.endEntry(userId, userState.sessionId, 'unmanaged', 'lost');
+      this.finishStreamRecording(userId, userState);
+    }
+
+    const sdkManaged = camera.isManagedStreamActive();
+    const managedPhase = userState.machine.getPhase('managed');
+    if (sdkManaged && !userState.machine.isActive('managed')) {
+      const urls = camera.getManagedStreamUrls();
+      this.setManagedStreamStatus(userId, userState, {
+        type: CloudToAppMessageType.MANAGED_STREAM_STATUS,
+        status: 'active',
+        hlsUrl: urls?.hlsUrl,
+        dashUrl: urls?.dashUrl,
+        webrtcUrl: urls?.webrtcUrl,
+        streamId: urls?.streamId,
+        timestamp: new Date()
+      }, 'reconciled: SDK reports a running managed stream');
+    } else if (!sdkManaged && managedPhase === 'live') {
+      this.setManagedStreamStatus(userId, userState, {
+        type: CloudToAppMessageType.MANAGED_STREAM_STATUS,
+        status: 'stopped',
+        timestamp: new Date()
+      }, 'reconciled: SDK reports no managed stream');
+      this.streamHistory.endEntry(userId, userState.sessionId, 'managed', 'lost');
+    }
+  }
+
+  /**
+   * Starts the server, the stream scheduler, the stream health monitor and recording retention
+   */
+  public async start(): Promise<void> {
+    await super.start();
+    this.startStreamScheduler();
+    this.startStreamHealthMonitor();
+    this.startRecordingRetention();
+    this.ready = true;
+  }
+
+  protected async onSession(session: StreamingSession, sessionId: string, userId: string): Promise<void> {
+    this.userLog(userId).info(`New session started: ${sessionId}`);
+
+    // A session ID that is already connected was re-established; the old session's handlers and streams end here
+    const replacedState = this.sessionStates.get(sessionId);
+    if (replacedState) {
+      this.removeSession(replacedState, 'replaced by a new connection');
+    }
+
+    // Get the user's active destination or use default
+    const activeDestination = this.getActiveDestinationForUser(userId);
+    const userRtmpUrl = activeDestination?.rtmpUrl || this.defaultRtmpUrl;
+
+    // Initialize state for this session with the user's persistent RTMP URL; their other sessions keep their own state
+    const userState: UserStreamState = {
+      sessionId: sessionId,
+      userId: userId,
+      rtmpUrl: userRtmpUrl,
+      destinationId: activeDestination?.id ?? null,
+      encodingProfileId: null,
+      streamWanted: false,
+      retry: createRetryState(),
+      machine: new StreamStateMachine(userId, transition => this.handleStreamTransition(userState, transition)),
+      streamStatus: this.getInitialStreamStatus(),
+      managedStreamStatus: null,
+      session: session,
+      connectedAt: new Date(),
+      battery: null,
+      batteryPolicyState: createBatteryPolicyState(),
+      startRequestedAt: { unmanaged: null, managed: null },
+      liveSince: { unmanaged: null, managed: null },
+      stats: new StreamStatsSeries(),
+      streamHealth: null,
+      lastHealthWarningAt: null,
+      recording: null,
+      cleanup: [],
+    };
+    this.sessionStates.set(sessionId, userState);
+    this.userSessionIds.set(userId, [...(this.userSessionIds.get(userId) ?? []), sessionId]);
+
+    const log = this.sessionLog(userState);
+    log.info(`Session state restored with RTMP URL: ${maskRtmpUrl(userRtmpUrl)}. Sessions for this user: ${this.userSessionIds.get(userId)!.length}`);
+    this.publishSessions(userId);
+    
+    // Subscribe to managed stream status updates
+    //session.subscribe(StreamType.MANAGED_STREAM_STATUS);
+    //session.subscribe(StreamType.RTMP_STREAM_STATUS);
+    
+    // Set up managed stream status handler EARLY to catch all updates
+    const managedStreamCleanup = session.camera.onManagedStreamStatus((status: ManagedStreamStatus) => {
+        this.sessionLog(userState, 'managed').info(`Managed stream status update: ${status.status}`, { status });
+        if (this.isSessionActive(userState)) {
+            this.setManagedStreamStatus(userId, userState, status, 'managed stream status');
+            this.streamHistory.recordEvent(userId, sessionId, 'managed', 'status', { status: status.status, message: status.message });
+            // Propagate essential parts of status for UI update to glasses
+            switch (status.status) {
+                case 'initializing':
+                    this.showTextWall(session, 'Managed stream is initializing...');
+                    break;
+                case 'active':
+                    this.showTextWall(session, 'Managed stream is live! URLs ready.');
+                    break;
+                case 'error':
+                    this.streamErrorCounter.inc({ mode: 'managed', category: categorizeStreamError(status.message) });
+                    this.showTextWall(session, `Managed stream error: ${status.message}`);
+                    this.streamHistory.endEntry(userId, sessionId, 'managed', 'error', status.message);
+                    break;
+                case 'stopped':
+                    this.showTextWall(session, 'Managed stream has stopped');
+                    this.streamHistory.endEntry(userId, sessionId, 'managed', 'stopped');
+                    break;
+            }
+        } else {
+            log.warn('Received managed stream status for a session that is no longer active');
+        }
+    });
+    
+    this.showTextWall(session, "RTMP Streaming Example Ready!");
+    // ... (rest of initial photo logic if any, currently commented out)
+
+    const headGestures = new HeadGestureDetector();
+
+    const cleanup = [
+      managedStreamCleanup,
+      session.events.onConnected(async (data) => {
+        // Streams may have changed while the glasses were away
+        this.reconcileStreamState(userState);
+
+        const settings = this.getUserSettings(userId);
+        const decision = evaluateAutoStart(settings.autoStartPolicy, userState.rtmpUrl, settings.confirmedRtmpUrl);
+        log.info(`Glass connected. Auto-start: ${decision.start} (${decision.reason})`);
+
+        if (decision.start && userState.machine.isActive('unmanaged')) {
+          this.showTextWall(session, `Connected. Stream to ${describeDestination(userState.rtmpUrl)} is already running.`);
+        } else if (decision.start) {
+          this.showTextWall(session, `Connected. Auto-starting stream to ${describeDestination(userState.rtmpUrl)} (${decision.reason}).`);
+          try {
+            // Uses the user's active destination and default profile, like a start from the webview
+            await this.startStreamForUser(userId, { trigger: 'auto-start', sessionId });
+            this.sessionLog(userState, 'unmanaged').info('Initial RTMP stream requested successfully');
+          } catch (error: any) {
+            this.sessionLog(userState, 'unmanaged').error('Error starting initial stream', { error });
+            this.showTextWall(session, "Auto-start failed, stream is NOT live: " + error.message);
+          }
+        } else {
+          this.showTextWall(session, `Connected. Not streaming: ${decision.reason}. Start from the app.`);
+        }
+
+        if (settings.captureInitialPhoto) {
+          try {
+            await session.camera.requestPhoto({ saveToGallery: true });
+            this.showTextWall(session, 'Initial photo taken and saved to gallery (photo on connect is enabled).');
+          } catch (error: any) {
+            log.error('Error capturing initial photo', { error });
+            this.showTextWall(session, "Failed to take initial photo: " + error.message);
+          }
+        }
+      }),
+      session.events.onTranscription((data) => {
+        if (!data.isFinal || !this.getGlassesControlForUser(userId).voice) return;
+        const command = parseVoiceCommand(data.text);
+        if (command) {
+          this.executeGlassesCommand(userId, command, 'voice', sessionId);
+        }
+      }),
+      session.events.onButtonPress((data) => {
+        // Short presses belong to the glasses' own UI, a long press toggles the stream
+        if (data.pressType !== 'long' || !this.getGlassesControlForUser(userId).button) return;
+        this.toggleStreamFromGlasses(userState, 'button');
+      }),
+      session.events.onHeadPosition((data) => {
+        if (!this.getGlassesControlForUser(userId).headGesture) return;
+        if (headGestures.handle(data.position)) {
+          this.toggleStreamFromGlasses(userState, 'head-gesture');
+        }
+      }),
+      session.events.onPhoneNotifications((data) => { }),
+      session.events.onGlassesBattery((data) => {
+        this.handleBatteryUpdate(userState, {
+          level: data.level,
+          charging: data.charging,
+          timeRemaining: data.timeRemaining ?? null,
+          updatedAt: new Date(),
+        }).catch(error => log.error('Error applying battery policy', { error }));
+      }),
+      session.events.onError((error) => { log.error('Session error', { error }); }),
+      session.camera.onStreamStatus((status: RtmpStreamStatus) => {
+        this.sessionLog(userState, 'unmanaged').info(`Stream status update: ${status.status}`, { status });
+        if (this.isSessionActive(userState)) {
+            this.setStreamStatus(userId, userState, status, 'stream status');
+            this.streamHistory.recordEvent(userId, sessionId, 'unmanaged', 'status', { status: status.status, message: status.errorDetails });
+            // Propagate essential parts of status for UI update to glasses
+            switch (status.status) {
+                case 'initializing':
+                    this.showTextWall(session, 'Stream is initializing...');
+                    break;
+                case 'active':
+                    if (userState.retry.attempt > 0) {
+                        this.showTextWall(session, `Stream reconnected after ${userState.retry.attempt} retries!`);
+                    } else {
+                        this.showTextWall(session, 'Stream is active and running!');
+                    }
+                    this.resetStreamRetry(userState);
+                    break;
+                // Every status that puts the stream in the error phase
+                case 'error':
+                case 'timeout':
+                case 'reconnect_failed': {
+                    const errorDetails = status.errorDetails || status.status.replace('_', ' ');
+                    this.streamErrorCounter.inc({ mode: 'unmanaged', category: categorizeStreamError(errorDetails) });
+                    this.showTextWall(session, `Stream error: ${errorDetails}`);
+                    this.scheduleStreamRetry(userState, errorDetails);
+                    if (!userState.streamWanted) {
+                        // No retry is coming, so this session is over
+                        this.streamHistory.endEntry(userId, sessionId, 'unmanaged', 'error', errorDetails);
+                        this.finishStreamRecording(userId, userState);
+                    }
+                    break;
+                }
+                case 'stopped':
+                    this.showTextWall(session, 'Stream has stopped');
+                    this.streamHistory.endEntry(userId, sessionId, 'unmanaged', 'stopped');
+                    this.finishStreamRecording(userId, userState);
+                    break;
+            }
+        } else {
+            log.warn('Received stream status for a session that is no longer active');
+        }
+      }),
+      session.events.onDisconnected((data: string | { message: string; code: number; reason: string; wasClean: boolean; permanent?: boolean }) => {
+        const reason = typeof data === 'string' ? data : data.reason;
+        log.info(`Session ${sessionId} disconnected. Reason: ${reason}`);
+        // Only this session's state is removed; a newer session of the same user is left alone
+        if (this.isSessionActive(userState)) {
+          this.removeSession(userState, reason);
+        }
+      })
+    ];
+
+    userState.cleanup = cleanup.filter(handler => handler && typeof handler === 'function');
+  }
+
+  // Ends a session's streams and removes its state and event handlers; the user's other sessions and persistent settings are kept
+  private removeSession(userState: UserStreamState, reason: string): void {
+    const { userId, sessionId } = userState;
+    this.resetStreamRetry(userState);
+    this.finishStreamRecording(userId, userState);
+    for (const mode of ['unmanaged', 'managed'] as StreamMode[]) {
+      // Streams still live end with the session
+      const liveSince = userState.liveSince[mode];
+      if (liveSince !== null) {
+        this.streamDurationHistogram.observe({ mode }, (Date.now() - liveSince) / 1000);
+      }
+      this.streamHistory.endEntry(userId, sessionId, mode, 'disconnected', reason);
+    }
+
+    this.sessionStates.delete(sessionId);
+    const remaining = (this.userSessionIds.get(userId) ?? []).filter(id => id !== sessionId);
+    if (remaining.length > 0) {
+      this.userSessionIds.set(userId, remaining);
+    } else {
+      this.userSessionIds.delete(userId);
+    }
+    this.releaseSessionHandlers(userState);
+
+    // Shared viewer pages move to the user's remaining sessions or go offline
+    this.publishManagedStreamStatus(userState, null);
+    this.publishSessions(userId);
+    this.webhooks.dispatch(userId, 'session.disconnected', { sessionId, reason });
+    this.sessionLog(userState).info(`Session removed. Active sessions: ${this.sessionStates.size}, ${remaining.length} left for this user. Persistent settings preserved.`);
+  }
+
+  // Removes the event handlers a session registered, so a closed session's events cannot reach the app
+  private releaseSessionHandlers(userState: UserStreamState): void {
+    for (const handler of userState.cleanup.splice(0)) {
+      try {
+        handler();
+      } catch (error) {
+        this.sessionLog(userState).warn('Failed to remove a session event handler', { error });
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// One operator action, e.g. a force-stop from the admin dashboard
+export interface AuditEntry {
+  at: string;
+  operator: string;
+  action: string;
+  targetUserId: string;
+  details?: Record<string, any>;
+  success: boolean;
+  error?: string;
+}
+
+const MAX_RECENT_ENTRIES = 500;
+
+/**
+ * Append-only audit trail of operator actions.
+ * Entries are kept in memory for the dashboard and, if a file path is given, appended to it as JSON lines.
+ */
+export class AuditLog {
+  private recent: AuditEntry[] = [];
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  /**
+   * Records an operator action
+   * @param entry - The action, without timestamp
+   * @returns The stored entry
+   */
+  record(entry: Omit<AuditEntry, 'at'>): AuditEntry {
+    const stored: AuditEntry = { at: new Date().toISOString(), ...entry };
+    this.recent.unshift(stored);
+    if (this.recent.length > MAX_RECENT_ENTRIES) {
+      this.recent.length = MAX_RECENT_ENTRIES;
+    }
+    if (this.filePath) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(stored) + '\n');
+    }
+    logger.info(`AUDIT: ${stored.operator} ${stored.action}`, { audit: true, operator: stored.operator, action: stored.action, targetUserId: stored.targetUserId, success: stored.success, error: stored.error });
+    return stored;
+  }
+
+  /**
+   * Lists the most recent entries, newest first
+   * @param limit - Maximum number of entries to return
+   */
+  list(limit: number = 100): AuditEntry[] {
+    return this.recent.slice(0, limit);
+  }
+
+  // Restores the most recent entries from the file so the dashboard survives restarts
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    const entries: AuditEntry[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash during an append leaves a partial line; the entries around it are still good
+        logger.warn(`Skipping unreadable line ${index + 1} of audit log ${this.filePath}`);
+      }
+    });
+    this.recent = entries.slice(-MAX_RECENT_ENTRIES).reverse();
+    // Start the next append on a new line rather than after the partial one
+    if (content && !content.endsWith('\n')) {
+      fs.appendFileSync(this.filePath, '\n');
+    }
+  }
+}
+
+/**
+ * Creates the audit log selected by environment config.
+ * AUDIT_LOG_FILE_PATH overrides the default file; AUDIT_LOG_STORE=memory disables the file.
+ */
+export function createAuditLog(): AuditLog {
+  if (process.env.AUDIT_LOG_STORE === 'memory') {
+    return new AuditLog();
+  }
+  return new AuditLog(process.env.AUDIT_LOG_FILE_PATH || path.join(process.cwd(), 'data', 'admin-audit.jsonl'));
+}
@@ -0,0 +1,44 @@
+// When the stream should start by itself as soon as the glasses connect
+export type AutoStartPolicy = 'never' | 'always' | 'confirmed';
+
+export const AUTO_START_POLICIES: AutoStartPolicy[] = ['never', 'always', 'confirmed'];
+
+export const DEFAULT_AUTO_START_POLICY: AutoStartPolicy = 'never';
+
+export interface AutoStartDecision {
+  start: boolean;
+  reason: string;
+}
+
+/**
+ * Decides whether a stream should auto-start on connect
+ * @param policy - The user's auto-start policy
+ * @param rtmpUrl - The destination the stream would go to
+ * @param confirmedRtmpUrl - The destination the user last explicitly confirmed, if any
+ */
+export function evaluateAutoStart(policy: AutoStartPolicy, rtmpUrl: string, confirmedRtmpUrl: string | null): AutoStartDecision {
+  switch (policy) {
+    case 'always':
+      return { start: true, reason: 'auto-start is set to always' };
+    case 'confirmed':
+      if (confirmedRtmpUrl && confirmedRtmpUrl === rtmpUrl) {
+        return { start: true, reason: 'destination was confirmed for auto-start' };
+      }
+      return { start: false, reason: 'destination has not been confirmed for auto-start' };
+    case 'never':
+    default:
+      return { start: false, reason: 'auto-start is off' };
+  }
+}
+
+/**
+ * Extracts just the host part of a stream URL so it can be shown without the stream key
+ * @param rtmpUrl - The full RTMP URL
+ */
+export function describeDestination(rtmpUrl: string): string {
+  try {
+    return new URL(rtmpUrl).host || 'unknown server';
+  } catch {
+    return 'unknown server';
+  }
+}
@@ -0,0 +1,113 @@
+// How streams react to a draining glasses battery. The glasses report no temperature, so battery level is the only signal.
+export interface BatteryPolicy {
+  enabled: boolean;
+  // At or below this level the wearer is warned and the unmanaged stream steps down
+  warnLevel: number;
+  // Profile the unmanaged stream switches to at warnLevel; null only warns
+  stepDownProfileId: string | null;
+  // At or below this level every stream is stopped
+  criticalLevel: number;
+}
+
+export const DEFAULT_BATTERY_POLICY: BatteryPolicy = {
+  enabled: true,
+  warnLevel: 25,
+  stepDownProfileId: 'low-bandwidth-480p',
+  criticalLevel: 10,
+};
+
+// Latest battery report from the glasses
+export interface BatteryStatus {
+  level: number;
+  charging: boolean;
+  timeRemaining: number | null;
+  updatedAt: Date;
+}
+
+export type BatteryAction = 'warn' | 'step-down' | 'stop';
+
+// Actions already taken in this session, so each fires once per discharge
+export interface BatteryPolicyState {
+  warned: boolean;
+  steppedDown: boolean;
+  stopped: boolean;
+}
+
+// The level must rise this far above warnLevel before actions can fire again, so readings hovering at a threshold do not repeat them
+export const BATTERY_HYSTERESIS = 5;
+
+export function createBatteryPolicyState(): BatteryPolicyState {
+  return { warned: false, steppedDown: false, stopped: false };
+}
+
+/**
+ * Validates a partial battery policy update
+ * @param input - Fields to change, usually straight from a request body
+ * @returns A list of human readable problems, empty if the update is valid
+ */
+export function validateBatteryPolicy(input: any): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Battery policy must be an object'];
+  }
+  const errors: string[] = [];
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  for (const field of ['warnLevel', 'criticalLevel']) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 100) {
+      errors.push(`${field} must be an integer between 0 and 100`);
+    }
+  }
+  if (typeof input.warnLevel === 'number' && typeof input.criticalLevel === 'number' && input.criticalLevel >= input.warnLevel) {
+    errors.push('criticalLevel must be below warnLevel');
+  }
+  if (input.stepDownProfileId !== undefined && input.stepDownProfileId !== null && typeof input.stepDownProfileId !== 'string') {
+    errors.push('stepDownProfileId must be a string or null');
+  }
+  return errors;
+}
+
+/**
+ * Decides which policy actions a battery report triggers, and updates the state accordingly
+ * @param policy - The user's battery policy
+ * @param battery - The new battery report
+ * @param state - Actions already taken in this session; mutated
+ * @param streaming - Which streams are live; step-down and stop only fire while there is something to act on
+ * @returns Actions to take now, in order
+ */
+export function evaluateBatteryPolicy(
+  policy: BatteryPolicy,
+  battery: BatteryStatus,
+  state: BatteryPolicyState,
+  streaming: { unmanaged: boolean; managed: boolean }
+): BatteryAction[] {
+  if (!policy.enabled) {
+    return [];
+  }
+  if (battery.charging || battery.level > policy.warnLevel + BATTERY_HYSTERESIS) {
+    Object.assign(state, createBatteryPolicyState());
+    return [];
+  }
+
+  const actions: BatteryAction[] = [];
+  if (battery.level <= policy.criticalLevel) {
+    if (!state.stopped && (streaming.unmanaged || streaming.managed)) {
+      state.stopped = true;
+      actions.push('stop');
+    }
+    return actions;
+  }
+  if (battery.level <= policy.warnLevel) {
+    if (!state.warned) {
+      state.warned = true;
+      actions.push('warn');
+    }
+    if (policy.stepDownProfileId && !state.steppedDown && streaming.unmanaged) {
+      state.steppedDown = true;
+      actions.push('step-down');
+    }
+  }
+  return actions;
+}
@@ -0,0 +1,42 @@
+import path from 'path';
+
+// Settings the app reads from the environment at startup
+export interface AppConfig {
+  packageName: string;
+  apiKey: string;
+  port: number;
+  // Static files served by the SDK, or false to serve none
+  publicDir: string | false;
+  // Destination used until a user saves their own
+  defaultRtmpUrl: string;
+  // Operator dashboard token; the dashboard is disabled without one
+  adminToken: string | null;
+  // Bearer token required by /metrics; metrics are open without one
+  metricsToken: string | null;
+  // Whether users may register webhooks for private and loopback addresses
+  allowPrivateWebhookUrls: boolean;
+}
+
+export const DEFAULT_RTMP_URL = 'rtmp://0.0.0.0/s/streamKey';
+
+/**
+ * Reads the app configuration from the environment
+ * @param env - Environment variables, process.env by default
+ * @returns The configuration
+ * @throws {Error} If PACKAGE_NAME or MENTRAOS_API_KEY is missing
+ */
+export function readAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  if (!env.PACKAGE_NAME || !env.MENTRAOS_API_KEY) {
+    throw new Error("PACKAGE_NAME and API_KEY must be set");
+  }
+  return {
+    packageName: env.PACKAGE_NAME,
+    apiKey: env.MENTRAOS_API_KEY,
+    port: env.PORT ? parseInt(env.PORT) : 3000,
+    publicDir: path.join(__dirname, '../public'),
+    defaultRtmpUrl: DEFAULT_RTMP_URL,
+    adminToken: env.ADMIN_TOKEN || null,
+    metricsToken: env.METRICS_TOKEN || null,
+    allowPrivateWebhookUrls: env.WEBHOOKS_ALLOW_PRIVATE_URLS === 'true',
+  };
+}
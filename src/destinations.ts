@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+
+// A named RTMP ingest the user can stream to (YouTube, Twitch, internal server, ...)
+export interface RtmpDestination {
+  id: string;
+  name: string;
+  rtmpUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MAX_DESTINATIONS_PER_USER = 20;
+
+// Thrown when a destination ID is not one of the user's saved destinations
+export class DestinationNotFoundError extends Error {
+  constructor(public destinationId: string) {
+    super(`Unknown destination: ${destinationId}`);
+    this.name = 'DestinationNotFoundError';
+  }
+}
+
+/**
+ * Creates a new destination record
+ * @param name - Display name, e.g. "YouTube"
+ * @param rtmpUrl - Full ingest URL including the stream key
+ */
+export function createDestination(name: string, rtmpUrl: string): RtmpDestination {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), name: name.trim(), rtmpUrl, createdAt: now, updatedAt: now };
+}
+
+function maskSecret(value: string): string {
+  return value.length <= 4 ? '****' : `****${value.slice(-4)}`;
+}
+
+/**
+ * Masks the stream key, credentials and query string of an RTMP URL so it can be logged or returned to clients
+ * @param rtmpUrl - The full RTMP URL
+ * @returns The URL with secrets replaced, e.g. rtmp://a.rtmp.youtube.com/live2/****wxyz
+ */
+export function maskRtmpUrl(rtmpUrl: string): string {
+  try {
+    const url = new URL(rtmpUrl);
+    if (url.username) url.username = '****';
+    if (url.password) url.password = '****';
+
+    // The stream key is the last path segment: rtmp://host/app/streamKey
+    const segments = url.pathname.split('/');
+    const last = segments.length - 1;
+    if (segments.length > 2 && segments[last]) {
+      segments[last] = maskSecret(segments[last]);
+      url.pathname = segments.join('/');
+    }
+    if (url.search) url.search = '?****';
+    return url.toString();
+  } catch {
+    return maskSecret(rtmpUrl);
+  }
+}
+
+/**
+ * Returns a copy of the destination that is safe to send to clients
+ * @param destination - The stored destination
+ */
+export function maskDestination(destination: RtmpDestination): RtmpDestination {
+  return { ...destination, rtmpUrl: maskRtmpUrl(destination.rtmpUrl) };
+}
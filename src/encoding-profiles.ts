@@ -0,0 +1,130 @@
+import { VideoConfig, AudioConfig } from '@mentra/sdk';
+
+// A named set of video/audio encoding options passed to camera.startStream
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  video: Required<VideoConfig>;
+  audio: Required<AudioConfig>;
+  builtIn?: boolean;
+}
+
+// Thrown when a profile ID is unknown or a custom profile fails validation
+export class InvalidEncodingProfileError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+    this.name = 'InvalidEncodingProfileError';
+  }
+}
+
+export const DEFAULT_ENCODING_PROFILE_ID = '720p30';
+
+const DEFAULT_AUDIO: Required<AudioConfig> = { bitrate: 128000, sampleRate: 44100, echoCancellation: true, noiseSuppression: true };
+
+export const BUILT_IN_ENCODING_PROFILES: EncodingProfile[] = [
+  {
+    id: 'low-bandwidth-480p',
+    name: 'Low bandwidth 480p',
+    video: { width: 854, height: 480, bitrate: 800000, frameRate: 24 },
+    audio: { ...DEFAULT_AUDIO, bitrate: 64000 },
+    builtIn: true,
+  },
+  {
+    id: '720p30',
+    name: '720p30',
+    video: { width: 1280, height: 720, bitrate: 2000000, frameRate: 30 },
+    audio: DEFAULT_AUDIO,
+    builtIn: true,
+  },
+  {
+    id: '1080p',
+    name: '1080p',
+    video: { width: 1920, height: 1080, bitrate: 4500000, frameRate: 30 },
+    audio: DEFAULT_AUDIO,
+    builtIn: true,
+  },
+];
+
+// Sane bounds for custom profiles, roughly what the glasses camera and encoder can handle
+export const ENCODING_BOUNDS = {
+  width: { min: 320, max: 1920 },
+  height: { min: 240, max: 1080 },
+  videoBitrate: { min: 250000, max: 8000000 },
+  frameRate: { min: 10, max: 60 },
+  audioBitrate: { min: 32000, max: 320000 },
+  sampleRates: [16000, 22050, 32000, 44100, 48000],
+};
+
+function checkRange(errors: string[], field: string, value: any, bounds: { min: number; max: number }): void {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    errors.push(`${field} must be an integer`);
+  } else if (value < bounds.min || value > bounds.max) {
+    errors.push(`${field} must be between ${bounds.min} and ${bounds.max}`);
+  }
+}
+
+/**
+ * Validates a custom encoding profile against ENCODING_BOUNDS
+ * @param profile - The profile candidate, usually straight from a request body
+ * @returns A list of human readable problems, empty if the profile is valid
+ */
+export function validateEncodingProfile(profile: any): string[] {
+  const errors: string[] = [];
+  if (!profile || typeof profile !== 'object') {
+    return ['Profile must be an object'];
+  }
+  if (!profile.name || typeof profile.name !== 'string' || !profile.name.trim()) {
+    errors.push('name must be a non-empty string');
+  }
+
+  const video = profile.video || {};
+  checkRange(errors, 'video.width', video.width, ENCODING_BOUNDS.width);
+  checkRange(errors, 'video.height', video.height, ENCODING_BOUNDS.height);
+  checkRange(errors, 'video.bitrate', video.bitrate, ENCODING_BOUNDS.videoBitrate);
+  checkRange(errors, 'video.frameRate', video.frameRate, ENCODING_BOUNDS.frameRate);
+
+  const audio = profile.audio || {};
+  if (audio.bitrate !== undefined) {
+    checkRange(errors, 'audio.bitrate', audio.bitrate, ENCODING_BOUNDS.audioBitrate);
+  }
+  if (audio.sampleRate !== undefined && !ENCODING_BOUNDS.sampleRates.includes(audio.sampleRate)) {
+    errors.push(`audio.sampleRate must be one of ${ENCODING_BOUNDS.sampleRates.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Builds a normalized custom profile from validated input, filling in audio defaults
+ * @param input - A profile that passed validateEncodingProfile
+ */
+export function createCustomEncodingProfile(input: any): EncodingProfile {
+  const name = String(input.name).trim();
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return {
+    id: `custom-${slug || Date.now()}`,
+    name,
+    video: {
+      width: input.video.width,
+      height: input.video.height,
+      bitrate: input.video.bitrate,
+      frameRate: input.video.frameRate,
+    },
+    audio: {
+      bitrate: input.audio?.bitrate ?? DEFAULT_AUDIO.bitrate,
+      sampleRate: input.audio?.sampleRate ?? DEFAULT_AUDIO.sampleRate,
+      echoCancellation: input.audio?.echoCancellation ?? DEFAULT_AUDIO.echoCancellation,
+      noiseSuppression: input.audio?.noiseSuppression ?? DEFAULT_AUDIO.noiseSuppression,
+    },
+  };
+}
+
+/**
+ * Looks up a profile by ID among the built-in profiles and a user's custom profiles
+ * @param profileId - The profile ID to find
+ * @param customProfiles - The user's custom profiles
+ * @returns The matching profile or undefined
+ */
+export function findEncodingProfile(profileId: string, customProfiles: EncodingProfile[] = []): EncodingProfile | undefined {
+  return BUILT_IN_ENCODING_PROFILES.find(p => p.id === profileId) || customProfiles.find(p => p.id === profileId);
+}
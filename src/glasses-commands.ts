@@ -0,0 +1,107 @@
+import { RtmpDestination } from './destinations';
+
+// A streaming action the wearer asked for from the glasses
+export type GlassesCommand =
+  | { type: 'start-stream' }
+  | { type: 'stop-stream' }
+  | { type: 'start-managed-stream' }
+  | { type: 'stop-managed-stream' }
+  | { type: 'switch-destination'; destinationName: string };
+
+export type GlassesCommandSource = 'voice' | 'button' | 'head-gesture';
+
+// Which hands-free inputs a user has turned on
+export interface GlassesControlSettings {
+  voice: boolean;
+  button: boolean;
+  headGesture: boolean;
+}
+
+// Head gestures are easy to trigger by accident, so they are opt-in
+export const DEFAULT_GLASSES_CONTROL: GlassesControlSettings = {
+  voice: true,
+  button: true,
+  headGesture: false,
+};
+
+// Two head-up movements within this time count as a gesture
+export const HEAD_GESTURE_WINDOW_MS = 2000;
+
+// Utterances must match a pattern as a whole, so commands are not picked out of ordinary conversation
+const VOICE_COMMAND_PATTERNS: { pattern: RegExp; command: (match: RegExpMatchArray) => GlassesCommand }[] = [
+  { pattern: /^(go live|start|begin) (the )?managed( stream(ing)?)?$/, command: () => ({ type: 'start-managed-stream' }) },
+  { pattern: /^(stop|end) (the )?managed( stream(ing)?)?$/, command: () => ({ type: 'stop-managed-stream' }) },
+  { pattern: /^((start|begin) (the )?stream(ing)?|go live)$/, command: () => ({ type: 'start-stream' }) },
+  { pattern: /^(stop|end) (the )?stream(ing)?$/, command: () => ({ type: 'stop-stream' }) },
+  { pattern: /^switch (to )?(destination )?(.+)$/, command: (match) => ({ type: 'switch-destination', destinationName: match[3] }) },
+];
+
+/**
+ * Lowercases a transcript and strips punctuation and filler so it can be matched against commands
+ * @param text - Raw transcription text
+ */
+export function normalizeUtterance(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(please|okay|ok|hey)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Recognizes a streaming voice command
+ * @param text - A final transcription
+ * @returns The command, or null if the utterance is not a command
+ */
+export function parseVoiceCommand(text: string): GlassesCommand | null {
+  const utterance = normalizeUtterance(text);
+  for (const { pattern, command } of VOICE_COMMAND_PATTERNS) {
+    const match = utterance.match(pattern);
+    if (match) {
+      return command(match);
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the destination a spoken name refers to: an exact name match first, then a unique partial match
+ * @param spokenName - Name as transcribed
+ * @param destinations - The user's saved destinations
+ * @returns The destination or undefined if none or several match
+ */
+export function findDestinationByName(spokenName: string, destinations: RtmpDestination[]): RtmpDestination | undefined {
+  const wanted = normalizeUtterance(spokenName);
+  const exact = destinations.find(d => normalizeUtterance(d.name) === wanted);
+  if (exact) {
+    return exact;
+  }
+  const partial = destinations.filter(d => normalizeUtterance(d.name).includes(wanted));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * Detects a double head-up gesture from a stream of head position events
+ */
+export class HeadGestureDetector {
+  private lastUpAt: number | null = null;
+
+  /**
+   * Feeds one head position event
+   * @param position - Reported head position
+   * @param now - Event time in ms
+   * @returns true when the event completes a gesture
+   */
+  handle(position: 'up' | 'down', now: number = Date.now()): boolean {
+    if (position !== 'up') {
+      return false;
+    }
+    if (this.lastUpAt !== null && now - this.lastUpAt <= HEAD_GESTURE_WINDOW_MS) {
+      this.lastUpAt = null;
+      return true;
+    }
+    this.lastUpAt = now;
+    return false;
+  }
+}
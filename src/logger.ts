@@ -0,0 +1,182 @@
+import { maskRtmpUrl } from './destinations';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields attached to every line of a logger, e.g. userId, sessionId and streamId for correlation
+export type LogContext = Record<string, any>;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // json for log collectors, pretty for reading in a terminal
+  format: 'json' | 'pretty';
+}
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are always secret, wherever they appear in logged objects
+const SECRET_KEY_PATTERN = /secret|password|passwd|token|stream_?key|api_?key|authorization|cookie/i;
+
+// Query parameters that carry credentials in http(s) and websocket URLs
+const SECRET_QUERY_PARAM_PATTERN = /^(key|token|secret|password|sig|signature|auth|api_?key|access_?token|stream_?key)$/i;
+
+const URL_PATTERN = /\b(rtmps?|srt|https?|wss?):\/\/[^\s"'<>`]+/gi;
+
+// Nested objects deeper than this are cut off rather than walked
+const MAX_REDACT_DEPTH = 6;
+
+/**
+ * Masks credentials in a single URL: the stream key of RTMP URLs, user info, and secret query parameters
+ * @param rawUrl - The URL to mask
+ */
+function redactUrl(rawUrl: string): string {
+  if (/^rtmps?:\/\//i.test(rawUrl)) {
+    return maskRtmpUrl(rawUrl);
+  }
+  try {
+    const url = new URL(rawUrl);
+    if (url.username) url.username = '****';
+    if (url.password) url.password = '****';
+    for (const name of Array.from(url.searchParams.keys())) {
+      if (SECRET_QUERY_PARAM_PATTERN.test(name)) {
+        url.searchParams.set(name, '****');
+      }
+    }
+    return url.toString();
+  } catch {
+    return rawUrl;
+  }
+}
+
+/**
+ * Masks stream keys and credentials in every URL found in a piece of text
+ * @param text - Free text such as a log message or a text wall
+ * @returns The text with secrets replaced
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(URL_PATTERN, match => redactUrl(match));
+}
+
+/**
+ * Returns a copy of a value that is safe to log: secret keys are replaced and URLs in strings are masked
+ * @param value - Anything passed to the logger
+ * @param depth - Current nesting depth, for recursion
+ * @param seen - Objects on the current path, so cycles are cut
+ */
+export function redactValue(value: any, depth: number = 0, seen: WeakSet<object> = new WeakSet()): any {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_REDACT_DEPTH) {
+    return '[Truncated]';
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactSecrets(value.message),
+      stack: value.stack ? redactSecrets(value.stack) : undefined,
+    };
+  }
+  // Only ancestors count as cycles; the same object may appear twice side by side
+  seen.add(value);
+  let result: any;
+  if (Array.isArray(value)) {
+    result = value.map(item => redactValue(item, depth + 1, seen));
+  } else {
+    result = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SECRET_KEY_PATTERN.test(key) && item !== null && item !== undefined && item !== ''
+        ? REDACTED
+        : redactValue(item, depth + 1, seen);
+    }
+  }
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Leveled logger writing one redacted line per entry, in JSON or a readable format
+ */
+export class Logger {
+  /**
+   * @param context - Fields added to every line
+   * @param options - Level and output format
+   */
+  constructor(private context: LogContext = {}, private options: LoggerOptions = readLoggerOptions()) {}
+
+  /**
+   * Creates a logger that adds more fields to every line, e.g. the user and session IDs
+   * @param context - Fields to add; they override fields of the same name
+   */
+  child(context: LogContext): Logger {
+    return new Logger({ ...this.context, ...context }, this.options);
+  }
+
+  /**
+   * Whether entries at a level are written
+   * @param level - The level to check
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVEL_ORDER[level] >= LOG_LEVEL_ORDER[this.options.level];
+  }
+
+  // Detail for troubleshooting, off by default
+  debug(message: string, fields?: LogContext): void {
+    this.write('debug', message, fields);
+  }
+
+  // Normal operation, e.g. a stream starting
+  info(message: string, fields?: LogContext): void {
+    this.write('info', message, fields);
+  }
+
+  // Something unexpected that the app recovered from
+  warn(message: string, fields?: LogContext): void {
+    this.write('warn', message, fields);
+  }
+
+  // A failed operation
+  error(message: string, fields?: LogContext): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogContext): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    const entry = redactValue({ ...this.context, ...fields });
+    const msg = redactSecrets(message);
+    const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+    if (this.options.format === 'pretty') {
+      const extra = Object.keys(entry).length > 0 ? ` ${JSON.stringify(entry)}` : '';
+      stream.write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${msg}${extra}\n`);
+    } else {
+      stream.write(JSON.stringify({ time: new Date().toISOString(), level, msg, ...entry }) + '\n');
+    }
+  }
+}
+
+/**
+ * Reads the logger configuration from the environment.
+ * LOG_LEVEL is one of debug, info (default), warn or error; LOG_FORMAT is json (default) or pretty.
+ */
+export function readLoggerOptions(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  const level = (env.LOG_LEVEL || 'info').toLowerCase();
+  return {
+    level: level in LOG_LEVEL_ORDER ? level as LogLevel : 'info',
+    format: env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json',
+  };
+}
+
+// Root logger for the app; modules derive children with their own context
+export const logger = new Logger();
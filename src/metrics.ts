@@ -0,0 +1,165 @@
+// Minimal Prometheus text exposition (format 0.0.4) for counters, gauges and histograms with labels
+
+export type MetricLabels = Record<string, string>;
+
+// Seconds; covers a quick RTMP handshake up to a slow managed stream start
+export const START_LATENCY_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+// Seconds; from a few seconds up to a full day of streaming
+export const STREAM_DURATION_BUCKETS = [10, 30, 60, 300, 900, 1800, 3600, 7200, 14400, 43200, 86400];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Stable key for a label set, independent of property order
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+abstract class Metric {
+  constructor(public readonly name: string, public readonly help: string, protected readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  /**
+   * Adds to the counter
+   * @param labels - Label values of the series
+   * @param value - Amount to add, must not be negative
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * A gauge whose series are computed when scraped, so it always reflects current state
+ */
+export class Gauge extends Metric {
+  /**
+   * @param collect - Returns the current series
+   */
+  constructor(name: string, help: string, private collect: () => { labels: MetricLabels; value: number }[]) {
+    super(name, help, 'gauge');
+  }
+
+  samples(): string[] {
+    return this.collect().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }> = new Map();
+
+  /**
+   * @param buckets - Upper bounds, ascending; +Inf is added automatically
+   */
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  /**
+   * Records one observation
+   * @param labels - Label values of the series
+   * @param value - The observed value
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds the app's metrics and renders them for scraping
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  /**
+   * Adds a metric to the registry
+   * @param metric - The metric; names must be unique
+   * @returns The same metric, for assignment
+   */
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  // All metrics in the Prometheus text format
+  render(): string {
+    return this.metrics.map(metric => metric.render()).join('\n') + '\n';
+  }
+}
+
+// Groups of stream errors, so the error counter has a small, fixed set of label values
+const STREAM_ERROR_CATEGORIES: { category: string; pattern: RegExp }[] = [
+  { category: 'timeout', pattern: /time(d)?\s*out|timeout/i },
+  { category: 'auth', pattern: /auth|unauthori[sz]ed|forbidden|401|403|stream key|invalid key/i },
+  { category: 'network', pattern: /network|connect|refused|unreachable|dns|host|socket|reset|wifi|wi-fi/i },
+  { category: 'camera', pattern: /camera|busy|in use/i },
+  { category: 'encoder', pattern: /encod|codec|bitrate|resolution/i },
+  { category: 'battery', pattern: /battery|power/i },
+];
+
+/**
+ * Sorts a stream error message into a coarse category for metrics
+ * @param errorDetails - Error text reported by the glasses or cloud
+ * @returns The category, "unknown" if nothing matches
+ */
+export function categorizeStreamError(errorDetails: string | undefined | null): string {
+  if (!errorDetails) return 'unknown';
+  return STREAM_ERROR_CATEGORIES.find(({ pattern }) => pattern.test(errorDetails))?.category ?? 'unknown';
+}
@@ -0,0 +1,53 @@
+import { timingSafeEqual } from 'crypto';
+import type { SimpleRtmpStreamingApp } from './app';
+
+// Stream start and stop routes whose requests are counted, matched against the request path
+const STREAM_REQUEST_ROUTES: { route: string; pattern: RegExp }[] = [
+  { route: '/api/start-stream', pattern: /^\/api\/start-stream$/ },
+  { route: '/api/stop-stream', pattern: /^\/api\/stop-stream$/ },
+  { route: '/api/start-managed-stream', pattern: /^\/api\/start-managed-stream$/ },
+  { route: '/api/stop-managed-stream', pattern: /^\/api\/stop-managed-stream$/ },
+  { route: '/admin/api/sessions/:userId/stop', pattern: /^\/admin\/api\/sessions\/[^/]+\/stop$/ },
+];
+
+/**
+ * Sets up the Prometheus /metrics endpoint and the /healthz readiness check.
+ * Must run before the other route setup so the request counter sees the stream routes.
+ * If METRICS_TOKEN is set, /metrics requires `Authorization: Bearer <METRICS_TOKEN>`.
+ * @param exampleApp The app whose Express server gets the routes
+ */
+export function setupMonitoringRoutes(exampleApp: SimpleRtmpStreamingApp): void {
+  const app = exampleApp.getExpressApp();
+  const metricsToken = exampleApp.getAppConfig().metricsToken;
+
+  // Counts stream start and stop requests once their response is sent
+  app.use((req: any, res: any, next: any) => {
+    if (req.method === 'POST') {
+      const match = STREAM_REQUEST_ROUTES.find(({ pattern }) => pattern.test(req.path));
+      if (match) {
+        res.on('finish', () => exampleApp.recordStreamRequest(match.route, res.statusCode < 400));
+      }
+    }
+    next();
+  });
+
+  // Prometheus scrape endpoint
+  app.get('/metrics', (req: any, res: any) => {
+    if (metricsToken) {
+      const header = req.headers['authorization'] || '';
+      const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+      const expected = Buffer.from(metricsToken);
+      if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+        return res.status(401).send('Unauthorized\n');
+      }
+    }
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(exampleApp.renderMetrics());
+  });
+
+  // Readiness check for the load balancer; 503 until the server is listening and while it shuts down
+  app.get('/healthz', (req: any, res: any) => {
+    const health = exampleApp.getHealth();
+    res.status(health.ready ? 200 : 503).json({ status: health.ready ? 'ok' : 'unavailable', checks: health.checks });
+  });
+}
@@ -0,0 +1,174 @@
+import path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { RecordingError, SEGMENT_FILE_TEMPLATE } from './recordings';
+import { logger } from './logger';
+
+export interface RelayOptions {
+  // Directory the segment files are written to
+  outputDir: string;
+  // Number of the first segment file, so a reconnect continues the recording instead of overwriting it
+  firstSegmentNumber: number;
+  // Destination the stream is re-pushed to, or null to only record
+  forwardUrl: string | null;
+}
+
+// One RTMP ingest waiting for, then receiving, a single stream from the glasses
+export interface RelayConnection {
+  // RTMP URL the glasses publish to
+  ingestUrl: string;
+  // Resolves when the relay has ended, with the error if it failed
+  ended: Promise<Error | null>;
+  // Ends the relay; resolves once the last segment is written
+  stop(): Promise<void>;
+}
+
+/**
+ * RTMP ingest controlled by this app. Streams published to it are written to segment files and optionally re-pushed.
+ */
+export interface RecordingRelay {
+  /**
+   * Opens an ingest for one stream
+   * @param options - Where to write the segments and where to forward the stream
+   * @returns The connection, already listening
+   * @throws {RecordingError} If no ingest can be opened
+   */
+  open(options: RelayOptions): Promise<RelayConnection>;
+}
+
+export interface FfmpegRelayOptions {
+  // Host the glasses reach the relay at
+  publicHost: string;
+  // Interface ffmpeg listens on. ffmpeg accepts any publisher that reaches it, so this must not be a public interface.
+  listenHost: string;
+  // Each open ingest takes one port from firstPort up to firstPort + portCount - 1
+  firstPort: number;
+  portCount: number;
+  segmentSeconds: number;
+  ffmpegPath: string;
+}
+
+export const DEFAULT_FFMPEG_RELAY_OPTIONS: Omit<FfmpegRelayOptions, 'publicHost'> = {
+  listenHost: '127.0.0.1',
+  firstPort: 1936,
+  portCount: 10,
+  segmentSeconds: 60,
+  ffmpegPath: 'ffmpeg',
+};
+
+// How long a stopped ffmpeg gets to write its last segment before it is killed
+const FFMPEG_STOP_TIMEOUT_MS = 5000;
+// ffmpeg's error output kept for the error message when it fails
+const MAX_STDERR_CHARS = 2000;
+
+// Escapes the characters the tee muxer treats as separators in an output name
+function escapeTeeTarget(target: string): string {
+  return target.replace(/[\\|\[\]]/g, match => `\\${match}`);
+}
+
+/**
+ * Relay that runs one ffmpeg RTMP listener per stream, copying the stream into MPEG-TS segments and, with the tee muxer, to the destination.
+ * A failing destination does not stop the recording.
+ */
+export class FfmpegRecordingRelay implements RecordingRelay {
+  private options: FfmpegRelayOptions;
+  private portsInUse: Set<number> = new Set();
+
+  constructor(options: Partial<FfmpegRelayOptions> & { publicHost: string }) {
+    this.options = { ...DEFAULT_FFMPEG_RELAY_OPTIONS, ...options };
+  }
+
+  async open(relayOptions: RelayOptions): Promise<RelayConnection> {
+    const port = this.allocatePort();
+    // ffmpeg does not check the stream key, the listen host is what keeps other publishers out
+    const streamKey = randomBytes(16).toString('hex');
+    const outputs = [
+      `[f=segment:segment_time=${this.options.segmentSeconds}:segment_format=mpegts:segment_start_number=${relayOptions.firstSegmentNumber}:reset_timestamps=1]`
+        + escapeTeeTarget(path.join(relayOptions.outputDir, SEGMENT_FILE_TEMPLATE)),
+    ];
+    if (relayOptions.forwardUrl) {
+      outputs.push(`[f=flv:onfail=ignore]${escapeTeeTarget(relayOptions.forwardUrl)}`);
+    }
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      '-listen', '1', '-i', `rtmp://${this.options.listenHost}:${port}/live/${streamKey}`,
+      '-map', '0', '-c', 'copy', '-f', 'tee', outputs.join('|'),
+    ];
+
+    let child: ChildProcess;
+    try {
+      child = await new Promise<ChildProcess>((resolve, reject) => {
+        const spawned = spawn(this.options.ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        spawned.once('spawn', () => resolve(spawned));
+        spawned.once('error', reject);
+      });
+    } catch (error: any) {
+      this.portsInUse.delete(port);
+      throw new RecordingError(`Could not start ffmpeg: ${error.message}`);
+    }
+
+    let stderr = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_CHARS);
+    });
+    let stopping = false;
+    const ended = new Promise<Error | null>(resolve => {
+      child.once('exit', (code, signal) => {
+        this.portsInUse.delete(port);
+        if (code === 0 || stopping) {
+          resolve(null);
+        } else {
+          resolve(new Error(`ffmpeg exited with ${code !== null ? `code ${code}` : signal}: ${stderr.trim() || 'no output'}`));
+        }
+      });
+    });
+    logger.info(`Recording relay listening on port ${port}`, { port });
+
+    return {
+      ingestUrl: `rtmp://${this.options.publicHost}:${port}/live/${streamKey}`,
+      ended,
+      stop: async () => {
+        if (child.exitCode !== null || child.signalCode !== null) {
+          return;
+        }
+        stopping = true;
+        // SIGTERM lets ffmpeg finish the segment it is writing
+        child.kill('SIGTERM');
+        const timer = setTimeout(() => child.kill('SIGKILL'), FFMPEG_STOP_TIMEOUT_MS);
+        await ended;
+        clearTimeout(timer);
+      },
+    };
+  }
+
+  private allocatePort(): number {
+    for (let port = this.options.firstPort; port < this.options.firstPort + this.options.portCount; port++) {
+      if (!this.portsInUse.has(port)) {
+        this.portsInUse.add(port);
+        return port;
+      }
+    }
+    throw new RecordingError(`All ${this.options.portCount} recording relay ports are in use`);
+  }
+}
+
+/**
+ * Creates the recording relay selected by environment config.
+ * Recording is unavailable unless RECORDING_RELAY_HOST, the host the glasses reach this server at, is set.
+ * RECORDING_RELAY_LISTEN_HOST, RECORDING_RELAY_PORT, RECORDING_RELAY_PORT_COUNT, RECORDING_SEGMENT_SECONDS and FFMPEG_PATH override the defaults.
+ */
+export function createRecordingRelay(): RecordingRelay | null {
+  const publicHost = process.env.RECORDING_RELAY_HOST;
+  if (!publicHost) {
+    logger.info('RECORDING_RELAY_HOST is not set, stream recording is disabled');
+    return null;
+  }
+  return new FfmpegRecordingRelay({
+    publicHost,
+    listenHost: process.env.RECORDING_RELAY_LISTEN_HOST || DEFAULT_FFMPEG_RELAY_OPTIONS.listenHost,
+    firstPort: parseInt(process.env.RECORDING_RELAY_PORT || '', 10) || DEFAULT_FFMPEG_RELAY_OPTIONS.firstPort,
+    portCount: parseInt(process.env.RECORDING_RELAY_PORT_COUNT || '', 10) || DEFAULT_FFMPEG_RELAY_OPTIONS.portCount,
+    segmentSeconds: parseInt(process.env.RECORDING_SEGMENT_SECONDS || '', 10) || DEFAULT_FFMPEG_RELAY_OPTIONS.segmentSeconds,
+    ffmpegPath: process.env.FFMPEG_PATH || DEFAULT_FFMPEG_RELAY_OPTIONS.ffmpegPath,
+  });
+}
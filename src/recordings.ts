@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+
+// Whether a user's unmanaged streams go through the recording relay, and whether the relay re-pushes them to the destination
+export type RecordingMode = 'off' | 'record' | 'record-and-forward';
+
+export const RECORDING_MODES: RecordingMode[] = ['off', 'record', 'record-and-forward'];
+
+export const DEFAULT_RECORDING_MODE: RecordingMode = 'off';
+
+// Segment files are MPEG-TS, so a recording downloads as its segments concatenated in order
+export const SEGMENT_FILE_TEMPLATE = 'segment-%05d.ts';
+const SEGMENT_FILE_PATTERN = /^segment-(\d+)\.ts$/;
+
+export interface RecordingSegment {
+  fileName: string;
+  sizeBytes: number;
+}
+
+// The archive of one unmanaged stream session, from start until it stops, fails or the glasses disconnect
+export interface Recording {
+  id: string;
+  ownerUserId: string;
+  status: 'recording' | 'complete';
+  startedAt: string;
+  endedAt: string | null;
+  // Masked destination the relay re-pushed to, null when the stream was only recorded
+  forwardedTo: string | null;
+  encodingProfileId: string;
+  segments: RecordingSegment[];
+  sizeBytes: number;
+}
+
+// What the owner sees about a recording
+export type RecordingSummary = Omit<Recording, 'ownerUserId'>;
+
+// Finished recordings beyond any of these limits are deleted, oldest first
+export interface RecordingRetention {
+  maxAgeMs: number;
+  maxBytesPerUser: number;
+  maxRecordingsPerUser: number;
+}
+
+export const DEFAULT_RECORDING_RETENTION: RecordingRetention = {
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  maxBytesPerUser: 5 * 1024 * 1024 * 1024,
+  maxRecordingsPerUser: 20,
+};
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+/**
+ * Stream recordings on disk.
+ * Each recording's segments live in a directory named after its ID; the index of all recordings is kept in recordings.json next to them.
+ */
+export class RecordingStore {
+  private recordings: Map<string, Recording> = new Map();
+  private retention: RecordingRetention;
+
+  /**
+   * @param rootDir - Directory holding the recordings
+   * @param retention - Limits on finished recordings
+   */
+  constructor(private rootDir: string, retention: Partial<RecordingRetention> = {}) {
+    this.retention = { ...DEFAULT_RECORDING_RETENTION, ...retention };
+    this.load();
+  }
+
+  // Limits applied by enforceRetention()
+  getRetention(): RecordingRetention {
+    return { ...this.retention };
+  }
+
+  /**
+   * Starts a new recording with an empty segment directory
+   * @param ownerUserId - The user whose stream is recorded
+   * @param details - Masked forward destination and the stream's encoding profile
+   * @returns The new recording
+   */
+  create(ownerUserId: string, details: { forwardedTo: string | null; encodingProfileId: string }): Recording {
+    const recording: Recording = {
+      id: randomUUID(),
+      ownerUserId,
+      status: 'recording',
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      forwardedTo: details.forwardedTo,
+      encodingProfileId: details.encodingProfileId,
+      segments: [],
+      sizeBytes: 0,
+    };
+    fs.mkdirSync(this.getSegmentDir(recording.id), { recursive: true });
+    this.recordings.set(recording.id, recording);
+    this.flush();
+    return recording;
+  }
+
+  /**
+   * Looks up a recording, with its segment list read from disk
+   * @param recordingId - The recording to get
+   */
+  get(recordingId: string): Recording | undefined {
+    const recording = this.recordings.get(recordingId);
+    if (recording?.status === 'recording') {
+      this.scanSegments(recording);
+    }
+    return recording;
+  }
+
+  /**
+   * Lists an owner's recordings, newest first
+   * @param ownerUserId - The owner to list recordings for
+   */
+  listForOwner(ownerUserId: string): Recording[] {
+    return Array.from(this.recordings.values())
+      .filter(recording => recording.ownerUserId === ownerUserId)
+      .map(recording => this.get(recording.id)!)
+      .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+  }
+
+  // Directory the relay writes a recording's segments to
+  getSegmentDir(recordingId: string): string {
+    return path.join(this.rootDir, recordingId);
+  }
+
+  /**
+   * Paths of a recording's segment files in playback order
+   * @param recording - The recording to read
+   */
+  getSegmentPaths(recording: Recording): string[] {
+    return recording.segments.map(segment => path.join(this.getSegmentDir(recording.id), segment.fileName));
+  }
+
+  /**
+   * Number for the next segment file, so a relay reconnecting to the same recording does not overwrite earlier segments
+   * @param recordingId - The recording being written
+   */
+  getNextSegmentNumber(recordingId: string): number {
+    const recording = this.get(recordingId);
+    const last = recording?.segments[recording.segments.length - 1];
+    return last ? parseInt(last.fileName.match(SEGMENT_FILE_PATTERN)![1], 10) + 1 : 0;
+  }
+
+  /**
+   * Marks a recording complete once its stream has ended. A recording that received no data is deleted instead.
+   * @param recordingId - The recording to finish
+   * @returns The finished recording, or undefined if it was empty or does not exist
+   */
+  finish(recordingId: string): Recording | undefined {
+    const recording = this.get(recordingId);
+    if (!recording || recording.status !== 'recording') {
+      return recording;
+    }
+    if (recording.sizeBytes === 0) {
+      this.remove(recording);
+      return undefined;
+    }
+    recording.status = 'complete';
+    recording.endedAt = new Date().toISOString();
+    this.flush();
+    return recording;
+  }
+
+  /**
+   * Deletes one of an owner's finished recordings and its files
+   * @param ownerUserId - The owner of the recording
+   * @param recordingId - The recording to delete
+   * @returns The deleted recording, or undefined if the owner has no such recording
+   * @throws {RecordingError} If the recording is still being written
+   */
+  delete(ownerUserId: string, recordingId: string): Recording | undefined {
+    const recording = this.recordings.get(recordingId);
+    if (!recording || recording.ownerUserId !== ownerUserId) {
+      return undefined;
+    }
+    if (recording.status === 'recording') {
+      throw new RecordingError('The recording is still in progress, stop the stream first');
+    }
+    this.remove(recording);
+    return recording;
+  }
+
+  /**
+   * Deletes finished recordings past the age limit, then each user's oldest ones until they are within the count and size limits
+   * @param now - Current time in ms
+   * @returns The deleted recordings
+   */
+  enforceRetention(now: number = Date.now()): Recording[] {
+    const removed: Recording[] = [];
+    const byOwner = new Map<string, Recording[]>();
+    for (const recording of this.recordings.values()) {
+      byOwner.set(recording.ownerUserId, [...(byOwner.get(recording.ownerUserId) ?? []), recording]);
+    }
+
+    for (const recordings of byOwner.values()) {
+      // Newest first, so the ones past a limit are at the end
+      recordings.sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+      let count = 0;
+      let totalBytes = 0;
+      for (const recording of recordings) {
+        count++;
+        totalBytes += recording.sizeBytes;
+        if (recording.status === 'recording') {
+          continue;
+        }
+        const expired = now - Date.parse(recording.endedAt ?? recording.startedAt) > this.retention.maxAgeMs;
+        if (expired || count > this.retention.maxRecordingsPerUser || totalBytes > this.retention.maxBytesPerUser) {
+          this.remove(recording);
+          removed.push(recording);
+          count--;
+          totalBytes -= recording.sizeBytes;
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Summarizes a recording for its owner
+   * @param recording - The recording to summarize
+   */
+  summarize(recording: Recording): RecordingSummary {
+    const { ownerUserId, ...summary } = recording;
+    return summary;
+  }
+
+  // Refreshes a recording's segments from the files the relay has written so far
+  private scanSegments(recording: Recording): void {
+    const dir = this.getSegmentDir(recording.id);
+    const fileNames = fs.existsSync(dir) ? fs.readdirSync(dir).filter(name => SEGMENT_FILE_PATTERN.test(name)).sort() : [];
+    recording.segments = fileNames.map(fileName => ({ fileName, sizeBytes: fs.statSync(path.join(dir, fileName)).size }));
+    recording.sizeBytes = recording.segments.reduce((sum, segment) => sum + segment.sizeBytes, 0);
+  }
+
+  private remove(recording: Recording): void {
+    fs.rmSync(this.getSegmentDir(recording.id), { recursive: true, force: true });
+    this.recordings.delete(recording.id);
+    this.flush();
+  }
+
+  private load(): void {
+    const indexPath = path.join(this.rootDir, 'recordings.json');
+    if (!fs.existsSync(indexPath)) return;
+    try {
+      const raw = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+      for (const recording of (raw.recordings || []) as Recording[]) {
+        this.recordings.set(recording.id, recording);
+      }
+    } catch (error) {
+      // The owners are only in the index, so the segment directories stay on disk for manual recovery
+      const movedTo = `${indexPath}.corrupt-${Date.now()}`;
+      fs.renameSync(indexPath, movedTo);
+      this.recordings.clear();
+      logger.error(`Could not load the recordings index from ${indexPath}, moved it to ${movedTo} and starting with no recordings`, { error });
+      return;
+    }
+    // Recordings left open by a restart will not receive more data
+    for (const recording of Array.from(this.recordings.values())) {
+      if (recording.status === 'recording') {
+        this.finish(recording.id);
+      }
+    }
+    logger.info(`Loaded ${this.recordings.size} recordings from ${this.rootDir}`);
+  }
+
+  private flush(): void {
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    const indexPath = path.join(this.rootDir, 'recordings.json');
+    const tmpPath = `${indexPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ recordings: Array.from(this.recordings.values()) }));
+    fs.renameSync(tmpPath, indexPath);
+  }
+}
+
+/**
+ * Creates the recording store selected by environment config.
+ * Recordings are kept in RECORDINGS_DIR; RECORDING_RETENTION_DAYS, RECORDING_MAX_GB_PER_USER and RECORDING_MAX_PER_USER override the retention limits.
+ */
+export function createRecordingStore(): RecordingStore {
+  const rootDir = process.env.RECORDINGS_DIR || path.join(process.cwd(), 'data', 'recordings');
+  const retentionDays = parseFloat(process.env.RECORDING_RETENTION_DAYS || '');
+  const maxGigabytes = parseFloat(process.env.RECORDING_MAX_GB_PER_USER || '');
+  const maxRecordings = parseInt(process.env.RECORDING_MAX_PER_USER || '', 10);
+  return new RecordingStore(rootDir, {
+    maxAgeMs: retentionDays > 0 ? retentionDays * 24 * 60 * 60 * 1000 : DEFAULT_RECORDING_RETENTION.maxAgeMs,
+    maxBytesPerUser: maxGigabytes > 0 ? Math.round(maxGigabytes * 1024 * 1024 * 1024) : DEFAULT_RECORDING_RETENTION.maxBytesPerUser,
+    maxRecordingsPerUser: maxRecordings > 0 ? maxRecordings : DEFAULT_RECORDING_RETENTION.maxRecordingsPerUser,
+  });
+}
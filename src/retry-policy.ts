@@ -0,0 +1,106 @@
+// How an unmanaged stream is restarted after it reports an error
+export interface RetryPolicy {
+  enabled: boolean;
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  // Fraction of the delay that is randomized, 0.2 means +/-20%
+  jitterRatio: number;
+  // Stop retrying once this much time has passed since the first failure in a row
+  giveUpAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 5,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  jitterRatio: 0.2,
+  giveUpAfterMs: 10 * 60 * 1000,
+};
+
+// Per-session retry bookkeeping, reset when a stream goes active or is started manually
+export interface RetryState {
+  attempt: number;
+  firstFailureAt: Date | null;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  gaveUp: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export function createRetryState(): RetryState {
+  return { attempt: 0, firstFailureAt: null, nextAttemptAt: null, lastError: null, gaveUp: false, timer: null };
+}
+
+const RETRY_POLICY_BOUNDS: Record<Exclude<keyof RetryPolicy, 'enabled'>, { min: number; max: number }> = {
+  maxAttempts: { min: 1, max: 50 },
+  initialDelayMs: { min: 500, max: 5 * 60 * 1000 },
+  maxDelayMs: { min: 1000, max: 30 * 60 * 1000 },
+  backoffMultiplier: { min: 1, max: 10 },
+  jitterRatio: { min: 0, max: 1 },
+  giveUpAfterMs: { min: 10000, max: 24 * 60 * 60 * 1000 },
+};
+
+/**
+ * Validates a partial retry policy update
+ * @param input - Fields to change, usually straight from a request body
+ * @returns A list of human readable problems, empty if the update is valid
+ */
+export function validateRetryPolicy(input: any): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Retry policy must be an object'];
+  }
+  const errors: string[] = [];
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  for (const [field, bounds] of Object.entries(RETRY_POLICY_BOUNDS)) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < bounds.min || value > bounds.max) {
+      errors.push(`${field} must be a number between ${bounds.min} and ${bounds.max}`);
+    }
+  }
+  const initialDelayMs = input.initialDelayMs;
+  const maxDelayMs = input.maxDelayMs;
+  if (typeof initialDelayMs === 'number' && typeof maxDelayMs === 'number' && maxDelayMs < initialDelayMs) {
+    errors.push('maxDelayMs must not be smaller than initialDelayMs');
+  }
+  return errors;
+}
+
+/**
+ * Computes the wait before a retry attempt using exponential backoff with jitter
+ * @param policy - The retry policy
+ * @param attempt - The 1-based attempt about to be made
+ * @param random - Source of randomness in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+  const jitter = base * policy.jitterRatio * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+/**
+ * Decides whether another retry is allowed
+ * @param policy - The retry policy
+ * @param state - The current retry bookkeeping
+ * @param now - Current time, injectable for tests
+ * @returns A reason to give up, or null if another attempt may be scheduled
+ */
+export function getGiveUpReason(policy: RetryPolicy, state: RetryState, now: Date = new Date()): string | null {
+  if (!policy.enabled) {
+    return 'automatic retry is disabled';
+  }
+  if (state.attempt >= policy.maxAttempts) {
+    return `gave up after ${state.attempt} retries`;
+  }
+  if (state.firstFailureAt && now.getTime() - state.firstFailureAt.getTime() >= policy.giveUpAfterMs) {
+    return `gave up after ${Math.round(policy.giveUpAfterMs / 60000)} minutes of failures`;
+  }
+  return null;
+}
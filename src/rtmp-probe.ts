@@ -0,0 +1,71 @@
+import net from 'net';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+import { ParsedRtmpUrl } from './rtmp-url';
+
+export interface RtmpProbeResult {
+  host: string;
+  port: number;
+  // TCP (and TLS for rtmps) connection was established
+  reachable: boolean;
+  // Server answered the RTMP C0/C1 handshake with a valid S0/S1
+  handshake: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+const RTMP_VERSION = 3;
+const HANDSHAKE_SIZE = 1536;
+export const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Opens a connection to an RTMP ingest and performs the first half of the RTMP handshake.
+ * Nothing is published; the socket is closed as soon as the server's S0/S1 arrive.
+ * @param target - The parsed destination to probe
+ * @param timeoutMs - How long to wait for the whole probe before giving up
+ */
+export function probeRtmpDestination(target: Pick<ParsedRtmpUrl, 'scheme' | 'host' | 'port'>, timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS): Promise<RtmpProbeResult> {
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    const result: RtmpProbeResult = { host: target.host, port: target.port, reachable: false, handshake: false };
+    let received = Buffer.alloc(0);
+    let finished = false;
+
+    const onConnect = () => {
+      result.reachable = true;
+      result.latencyMs = Date.now() - startedAt;
+      // C0 (version) + C1 (time, zero, random bytes)
+      const c1 = Buffer.concat([Buffer.alloc(8), randomBytes(HANDSHAKE_SIZE - 8)]);
+      socket.write(Buffer.concat([Buffer.from([RTMP_VERSION]), c1]));
+    };
+
+    const socket: net.Socket = target.scheme === 'rtmps'
+      ? tls.connect({ host: target.host, port: target.port, servername: target.host }, onConnect)
+      : net.connect({ host: target.host, port: target.port }, onConnect);
+
+    const finish = (error?: string) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      if (error) result.error = error;
+      socket.destroy();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      finish(result.reachable ? 'Timed out waiting for RTMP handshake response' : 'Timed out connecting to server');
+    }, timeoutMs);
+
+    socket.on('data', (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      if (received[0] !== RTMP_VERSION) {
+        finish(`Server did not answer with RTMP version ${RTMP_VERSION}`);
+      } else if (received.length >= 1 + HANDSHAKE_SIZE) {
+        result.handshake = true;
+        finish();
+      }
+    });
+    socket.on('error', (error) => finish(error.message));
+    socket.on('close', () => finish(result.reachable ? 'Connection closed during RTMP handshake' : 'Connection closed'));
+  });
+}
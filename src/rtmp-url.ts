@@ -0,0 +1,107 @@
+export type RtmpUrlField = 'rtmpUrl' | 'scheme' | 'host' | 'port' | 'app' | 'streamKey';
+
+export interface RtmpUrlFieldError {
+  field: RtmpUrlField;
+  message: string;
+}
+
+// Thrown when an RTMP URL fails strict parsing; carries one entry per offending part of the URL
+export class RtmpUrlValidationError extends Error {
+  constructor(public errors: RtmpUrlFieldError[]) {
+    super(`Invalid RTMP URL: ${errors.map(e => e.message).join('; ')}`);
+    this.name = 'RtmpUrlValidationError';
+  }
+}
+
+export interface ParsedRtmpUrl {
+  scheme: 'rtmp' | 'rtmps';
+  host: string;
+  port: number;
+  app: string;
+  streamKey: string;
+}
+
+export const DEFAULT_RTMP_PORT = 1935;
+export const DEFAULT_RTMPS_PORT = 443;
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6_PATTERN = /^[0-9a-fA-F:.]+$/;
+const APP_PATTERN = /^[A-Za-z0-9._~-]+$/;
+
+/**
+ * Strictly parses an RTMP ingest URL of the form rtmp[s]://host[:port]/app/streamKey
+ * @param rtmpUrl - The URL to parse
+ * @returns The parsed parts, with the port defaulted per scheme
+ * @throws {RtmpUrlValidationError} Listing every part of the URL that is invalid
+ */
+export function parseRtmpUrl(rtmpUrl: unknown): ParsedRtmpUrl {
+  if (typeof rtmpUrl !== 'string' || !rtmpUrl.trim()) {
+    throw new RtmpUrlValidationError([{ field: 'rtmpUrl', message: 'RTMP URL must be a non-empty string' }]);
+  }
+  if (/\s/.test(rtmpUrl)) {
+    throw new RtmpUrlValidationError([{ field: 'rtmpUrl', message: 'RTMP URL must not contain whitespace' }]);
+  }
+
+  const errors: RtmpUrlFieldError[] = [];
+  const schemeMatch = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//.exec(rtmpUrl);
+  const scheme = schemeMatch?.[1].toLowerCase();
+  if (scheme !== 'rtmp' && scheme !== 'rtmps') {
+    throw new RtmpUrlValidationError([{ field: 'scheme', message: 'URL must start with rtmp:// or rtmps://' }]);
+  }
+
+  const rest = rtmpUrl.slice(schemeMatch![0].length);
+  const slashIndex = rest.indexOf('/');
+  const authority = (slashIndex === -1 ? rest : rest.slice(0, slashIndex)).replace(/^.*@/, '');
+  const pathAndQuery = slashIndex === -1 ? '' : rest.slice(slashIndex + 1);
+
+  // Split host and port, allowing bracketed IPv6 literals
+  let host: string;
+  let portText: string | undefined;
+  const ipv6Match = /^\[([^\]]*)\](?::(.*))?$/.exec(authority);
+  if (ipv6Match) {
+    host = ipv6Match[1];
+    portText = ipv6Match[2];
+    if (!IPV6_PATTERN.test(host) || !host.includes(':')) {
+      errors.push({ field: 'host', message: `"${host}" is not a valid IPv6 address` });
+    }
+  } else {
+    const colonIndex = authority.lastIndexOf(':');
+    host = colonIndex === -1 ? authority : authority.slice(0, colonIndex);
+    portText = colonIndex === -1 ? undefined : authority.slice(colonIndex + 1);
+    if (!host) {
+      errors.push({ field: 'host', message: 'URL must include a server host name' });
+    } else if (!IPV4_PATTERN.test(host) && (!HOSTNAME_PATTERN.test(host) || /^[\d.]+$/.test(host))) {
+      errors.push({ field: 'host', message: `"${host}" is not a valid host name or IP address` });
+    }
+  }
+
+  let port = scheme === 'rtmps' ? DEFAULT_RTMPS_PORT : DEFAULT_RTMP_PORT;
+  if (portText !== undefined) {
+    const parsedPort = /^\d+$/.test(portText) ? parseInt(portText, 10) : NaN;
+    if (!(parsedPort >= 1 && parsedPort <= 65535)) {
+      errors.push({ field: 'port', message: 'Port must be a number between 1 and 65535' });
+    } else {
+      port = parsedPort;
+    }
+  }
+
+  // The first path segment is the application, everything after it (including any query) is the stream key
+  const [pathPart, query] = pathAndQuery.split(/\?(.*)/s, 2);
+  const segments = pathPart.split('/');
+  const app = segments[0] || '';
+  const streamKey = segments.slice(1).join('/') + (query ? `?${query}` : '');
+  if (!app) {
+    errors.push({ field: 'app', message: 'URL must include an application name, e.g. rtmp://host/live/streamKey' });
+  } else if (!APP_PATTERN.test(app)) {
+    errors.push({ field: 'app', message: `"${app}" is not a valid application name` });
+  }
+  if (!streamKey || streamKey.endsWith('/')) {
+    errors.push({ field: 'streamKey', message: 'URL must end with a stream key, e.g. rtmp://host/live/streamKey' });
+  }
+
+  if (errors.length > 0) {
+    throw new RtmpUrlValidationError(errors);
+  }
+  return { scheme, host, port, app, streamKey };
+}
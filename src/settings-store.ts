@@ -0,0 +1,266 @@
+import fs from 'fs';
+import path from 'path';
+import { EncodingProfile, DEFAULT_ENCODING_PROFILE_ID } from './encoding-profiles';
+import { AutoStartPolicy, DEFAULT_AUTO_START_POLICY } from './auto-start';
+import { RtmpDestination, createDestination, maskRtmpUrl } from './destinations';
+import { parseRtmpUrl } from './rtmp-url';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from './retry-policy';
+import { StreamWindow } from './stream-schedule';
+import { GlassesControlSettings, DEFAULT_GLASSES_CONTROL } from './glasses-commands';
+import { BatteryPolicy, DEFAULT_BATTERY_POLICY } from './battery-policy';
+import { RecordingMode, DEFAULT_RECORDING_MODE } from './recordings';
+import { logger } from './logger';
+
+/**
+ * Current schema version of stored user settings.
+ * Bump this and add an entry to `migrations` whenever UserPersistentSettings changes shape.
+ */
+export const CURRENT_SETTINGS_VERSION = 10;
+
+// Interface for persistent user settings that survive disconnections and restarts
+export interface UserPersistentSettings {
+  version: number;
+  destinations: RtmpDestination[];
+  activeDestinationId: string | null;
+  encodingProfileId: string;
+  customEncodingProfiles: EncodingProfile[];
+  autoStartPolicy: AutoStartPolicy;
+  confirmedRtmpUrl: string | null;
+  captureInitialPhoto: boolean;
+  retryPolicy: RetryPolicy;
+  streamWindows: StreamWindow[];
+  glassesControl: GlassesControlSettings;
+  batteryPolicy: BatteryPolicy;
+  recordingMode: RecordingMode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Pluggable storage backend for per-user settings.
+ * Implementations are synchronous so settings can be read from request handlers and session callbacks directly.
+ */
+export interface SettingsStore {
+  get(userId: string): UserPersistentSettings | undefined;
+  set(userId: string, settings: UserPersistentSettings): void;
+  delete(userId: string): void;
+  // Every user with stored settings, used by background jobs such as the stream scheduler
+  listUserIds(): string[];
+}
+
+// Older versions saved URLs without strict validation; an invalid one would only fail once the user starts a stream
+function isValidLegacyRtmpUrl(rtmpUrl: string): boolean {
+  try {
+    parseRtmpUrl(rtmpUrl);
+    return true;
+  } catch (error) {
+    logger.warn(`Dropping invalid RTMP URL ${maskRtmpUrl(rtmpUrl)} while migrating settings`, { error });
+    return false;
+  }
+}
+
+// Each migration upgrades a record from version N to version N + 1
+const migrations: Record<number, (record: any) => any> = {
+  // v1 was the original in-memory shape: { rtmpUrl }
+  1: (record) => {
+    const now = new Date().toISOString();
+    return { ...record, version: 2, createdAt: now, updatedAt: now };
+  },
+  // v3 adds encoding profiles; existing users keep the previously hard-coded 720p30
+  2: (record) => ({ ...record, version: 3, encodingProfileId: DEFAULT_ENCODING_PROFILE_ID, customEncodingProfiles: [] }),
+  // v4 adds auto-start rules; everyone starts opted out until they choose otherwise
+  3: (record) => ({ ...record, version: 4, autoStartPolicy: DEFAULT_AUTO_START_POLICY, confirmedRtmpUrl: null, captureInitialPhoto: false }),
+  // v5 replaces the single rtmpUrl with a list of named destinations, the old URL becomes the active one if it is valid
+  4: (record) => {
+    const { rtmpUrl, ...rest } = record;
+    const destinations = rtmpUrl && isValidLegacyRtmpUrl(rtmpUrl) ? [createDestination('Default', rtmpUrl)] : [];
+    return { ...rest, version: 5, destinations, activeDestinationId: destinations[0]?.id ?? null };
+  },
+  // v6 adds the automatic reconnect policy for unmanaged streams
+  5: (record) => ({ ...record, version: 6, retryPolicy: { ...DEFAULT_RETRY_POLICY } }),
+  // v7 adds scheduled stream windows
+  6: (record) => ({ ...record, version: 7, streamWindows: [] }),
+  // v8 adds hands-free control from the glasses
+  7: (record) => ({ ...record, version: 8, glassesControl: { ...DEFAULT_GLASSES_CONTROL } }),
+  // v9 adds the low battery policy
+  8: (record) => ({ ...record, version: 9, batteryPolicy: { ...DEFAULT_BATTERY_POLICY } }),
+  // v10 adds stream recording; it stays off until the user turns it on
+  9: (record) => ({ ...record, version: 10, recordingMode: DEFAULT_RECORDING_MODE }),
+};
+
+/**
+ * Upgrades a stored settings record to the current schema version
+ * @param record - The raw record as read from storage
+ * @returns The record migrated to CURRENT_SETTINGS_VERSION
+ * @throws {Error} If the record is newer than this build understands or a migration is missing
+ */
+export function migrateSettings(record: any): UserPersistentSettings {
+  let migrated = { ...record };
+  let version: number = typeof migrated.version === 'number' ? migrated.version : 1;
+
+  if (version > CURRENT_SETTINGS_VERSION) {
+    throw new Error(`Settings version ${version} is newer than supported version ${CURRENT_SETTINGS_VERSION}`);
+  }
+
+  while (version < CURRENT_SETTINGS_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No settings migration registered for version ${version}`);
+    }
+    migrated = migrate(migrated);
+    version = migrated.version;
+  }
+
+  return migrated as UserPersistentSettings;
+}
+
+/**
+ * Creates a fresh settings record for a user who has never saved anything
+ */
+export function createDefaultSettings(): UserPersistentSettings {
+  const now = new Date().toISOString();
+  return {
+    version: CURRENT_SETTINGS_VERSION,
+    destinations: [],
+    activeDestinationId: null,
+    encodingProfileId: DEFAULT_ENCODING_PROFILE_ID,
+    customEncodingProfiles: [],
+    autoStartPolicy: DEFAULT_AUTO_START_POLICY,
+    confirmedRtmpUrl: null,
+    captureInitialPhoto: false,
+    retryPolicy: { ...DEFAULT_RETRY_POLICY },
+    streamWindows: [],
+    glassesControl: { ...DEFAULT_GLASSES_CONTROL },
+    batteryPolicy: { ...DEFAULT_BATTERY_POLICY },
+    recordingMode: DEFAULT_RECORDING_MODE,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Settings store that only lives in process memory. Used for tests and local development.
+ */
+export class InMemorySettingsStore implements SettingsStore {
+  private records: Map<string, UserPersistentSettings> = new Map();
+
+  get(userId: string): UserPersistentSettings | undefined {
+    const record = this.records.get(userId);
+    return record ? { ...record } : undefined;
+  }
+
+  set(userId: string, settings: UserPersistentSettings): void {
+    this.records.set(userId, { ...settings });
+  }
+
+  delete(userId: string): void {
+    this.records.delete(userId);
+  }
+
+  listUserIds(): string[] {
+    return Array.from(this.records.keys());
+  }
+}
+
+/**
+ * Settings store backed by a single JSON file.
+ * The whole file is loaded on construction and rewritten atomically (temp file + rename) on every change.
+ */
+export class FileSettingsStore implements SettingsStore {
+  private records: Map<string, UserPersistentSettings> = new Map();
+  // Raw records that could not be migrated, e.g. written by a newer build before a rollback; written back as they were until the user saves again
+  private unmigratedRecords: Map<string, any> = new Map();
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  get(userId: string): UserPersistentSettings | undefined {
+    const record = this.records.get(userId);
+    return record ? { ...record } : undefined;
+  }
+
+  set(userId: string, settings: UserPersistentSettings): void {
+    this.records.set(userId, { ...settings });
+    this.unmigratedRecords.delete(userId);
+    this.flush();
+  }
+
+  delete(userId: string): void {
+    const deleted = this.records.delete(userId);
+    if (this.unmigratedRecords.delete(userId) || deleted) {
+      this.flush();
+    }
+  }
+
+  listUserIds(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info(`No settings file at ${this.filePath}, starting with empty settings`);
+      return;
+    }
+
+    let migratedCount = 0;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const [userId, record] of Object.entries<any>(raw.users || {})) {
+        let migrated: UserPersistentSettings;
+        try {
+          migrated = migrateSettings(record);
+        } catch (error) {
+          // One bad record only costs that user their settings, and only until they save new ones
+          this.unmigratedRecords.set(userId, record);
+          logger.error(`Could not migrate settings for user ${userId}, keeping the stored record and using defaults`, { userId, error });
+          continue;
+        }
+        if (migrated.version !== record.version) {
+          migratedCount++;
+        }
+        this.records.set(userId, migrated);
+      }
+    } catch (error) {
+      // An unreadable file must not keep the server from starting; it is kept next to the new one for manual recovery
+      const movedTo = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, movedTo);
+      this.records.clear();
+      this.unmigratedRecords.clear();
+      logger.error(`Could not load settings from ${this.filePath}, moved it to ${movedTo} and starting with empty settings`, { error });
+      return;
+    }
+    logger.info(`Loaded settings for ${this.records.size} users from ${this.filePath}`);
+
+    // Persist migrated records so the file on disk matches the current schema
+    if (migratedCount > 0) {
+      logger.info(`Migrated ${migratedCount} settings records to version ${CURRENT_SETTINGS_VERSION}`);
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const data = {
+      version: CURRENT_SETTINGS_VERSION,
+      users: { ...Object.fromEntries(this.unmigratedRecords), ...Object.fromEntries(this.records) },
+    };
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Creates the settings store selected by environment config
+ * SETTINGS_STORE=memory keeps everything in process memory, anything else uses the JSON file at SETTINGS_FILE_PATH.
+ */
+export function createSettingsStore(): SettingsStore {
+  if (process.env.SETTINGS_STORE === 'memory') {
+    logger.info('Using in-memory settings store');
+    return new InMemorySettingsStore();
+  }
+  const filePath = process.env.SETTINGS_FILE_PATH || path.join(process.cwd(), 'data', 'user-settings.json');
+  logger.info(`Using file settings store at ${filePath}`);
+  return new FileSettingsStore(filePath);
+}
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import { logger } from './logger';
+
+// A public link to a user's managed stream
+export interface ShareLink {
+  id: string;
+  // Secret part of the public URL
+  token: string;
+  ownerUserId: string;
+  label: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  // Viewer page loads over the link's lifetime
+  viewCount: number;
+}
+
+// What the owner sees about a link; currentViewers is the number of open viewer pages
+export interface ShareLinkSummary extends Omit<ShareLink, 'ownerUserId'> {
+  active: boolean;
+  currentViewers: number;
+}
+
+export const MAX_SHARE_LINKS_PER_USER = 20;
+export const DEFAULT_SHARE_LINK_EXPIRY_HOURS = 24;
+export const MAX_SHARE_LINK_EXPIRY_HOURS = 30 * 24;
+
+// Links are kept this long after they expire or are revoked so the owner can still see their view counts
+const INACTIVE_SHARE_LINK_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+/**
+ * Whether a link can still be used to watch
+ * @param link - The link to check
+ * @param now - Current time in ms
+ */
+export function isShareLinkActive(link: ShareLink, now: number = Date.now()): boolean {
+  return link.revokedAt === null && Date.parse(link.expiresAt) > now;
+}
+
+/**
+ * Revocable, expiring share links for managed streams.
+ * Links are kept in memory and, if a file path is given, persisted to it as JSON.
+ */
+export class ShareLinkStore {
+  private links: Map<string, ShareLink> = new Map();
+  // Open viewer pages per link ID; not persisted
+  private viewers: Map<string, number> = new Map();
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  /**
+   * Creates a share link
+   * @param ownerUserId - The user whose managed stream is shared
+   * @param label - Display name for the owner, e.g. "Family"
+   * @param expiresInHours - Lifetime of the link
+   * @returns The new link
+   * @throws {ShareLinkError} If the expiry is out of range or the owner has too many active links
+   */
+  create(ownerUserId: string, label: string, expiresInHours: number = DEFAULT_SHARE_LINK_EXPIRY_HOURS): ShareLink {
+    if (!Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_SHARE_LINK_EXPIRY_HOURS) {
+      throw new ShareLinkError(`expiresInHours must be between 0 and ${MAX_SHARE_LINK_EXPIRY_HOURS}`);
+    }
+    this.prune();
+    const activeCount = this.listForOwner(ownerUserId).filter(link => isShareLinkActive(link)).length;
+    if (activeCount >= MAX_SHARE_LINKS_PER_USER) {
+      throw new ShareLinkError(`A user can have at most ${MAX_SHARE_LINKS_PER_USER} active share links`);
+    }
+
+    const now = Date.now();
+    const link: ShareLink = {
+      id: randomUUID(),
+      token: randomBytes(24).toString('base64url'),
+      ownerUserId,
+      label: label.trim() || 'Shared stream',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + expiresInHours * 60 * 60 * 1000).toISOString(),
+      revokedAt: null,
+      viewCount: 0,
+    };
+    this.links.set(link.id, link);
+    this.flush();
+    return link;
+  }
+
+  /**
+   * Lists an owner's links, newest first
+   * @param ownerUserId - The owner to list links for
+   */
+  listForOwner(ownerUserId: string): ShareLink[] {
+    return Array.from(this.links.values())
+      .filter(link => link.ownerUserId === ownerUserId)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  /**
+   * Revokes one of an owner's links
+   * @param ownerUserId - The owner of the link
+   * @param linkId - The link to revoke
+   * @returns The revoked link, or undefined if the owner has no such link
+   */
+  revoke(ownerUserId: string, linkId: string): ShareLink | undefined {
+    const link = this.links.get(linkId);
+    if (!link || link.ownerUserId !== ownerUserId) {
+      return undefined;
+    }
+    if (link.revokedAt === null) {
+      link.revokedAt = new Date().toISOString();
+      this.flush();
+    }
+    return link;
+  }
+
+  /**
+   * Finds the active link for a public token
+   * @param token - Token from the viewer URL
+   * @returns The link, or undefined if it does not exist, expired or was revoked
+   */
+  resolve(token: string): ShareLink | undefined {
+    for (const link of this.links.values()) {
+      if (link.token === token) {
+        return isShareLinkActive(link) ? link : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Counts a viewer page load
+   * @param linkId - The link that was opened
+   */
+  recordView(linkId: string): void {
+    const link = this.links.get(linkId);
+    if (link) {
+      link.viewCount++;
+      this.flush();
+    }
+  }
+
+  /**
+   * Registers an open viewer page
+   * @param linkId - The link being watched
+   * @returns A function to call when the viewer leaves
+   */
+  addViewer(linkId: string): () => void {
+    this.viewers.set(linkId, (this.viewers.get(linkId) ?? 0) + 1);
+    let removed = false;
+    return () => {
+      if (removed) return;
+      removed = true;
+      const remaining = (this.viewers.get(linkId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.viewers.set(linkId, remaining);
+      } else {
+        this.viewers.delete(linkId);
+      }
+    };
+  }
+
+  /**
+   * Summarizes a link for its owner
+   * @param link - The link to summarize
+   */
+  summarize(link: ShareLink): ShareLinkSummary {
+    const { ownerUserId, ...rest } = link;
+    return { ...rest, active: isShareLinkActive(link), currentViewers: this.viewers.get(link.id) ?? 0 };
+  }
+
+  // Drops links that have been inactive for longer than the retention period
+  private prune(): void {
+    const cutoff = Date.now() - INACTIVE_SHARE_LINK_RETENTION_MS;
+    let removed = false;
+    for (const link of this.links.values()) {
+      const inactiveSince = link.revokedAt ? Date.parse(link.revokedAt) : Date.parse(link.expiresAt);
+      if (inactiveSince < cutoff) {
+        this.links.delete(link.id);
+        removed = true;
+      }
+    }
+    if (removed) {
+      this.flush();
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const link of (raw.links || []) as ShareLink[]) {
+        this.links.set(link.id, link);
+      }
+    } catch (error) {
+      const movedTo = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, movedTo);
+      this.links.clear();
+      logger.error(`Could not load share links from ${this.filePath}, moved it to ${movedTo} and starting with no share links`, { error });
+      return;
+    }
+    logger.info(`Loaded ${this.links.size} share links from ${this.filePath}`);
+  }
+
+  private flush(): void {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ links: Array.from(this.links.values()) }));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Creates the share link store selected by environment config.
+ * SHARE_LINKS_STORE=memory keeps links in process memory, anything else persists to SHARE_LINKS_FILE_PATH.
+ */
+export function createShareLinkStore(): ShareLinkStore {
+  if (process.env.SHARE_LINKS_STORE === 'memory') {
+    return new ShareLinkStore();
+  }
+  return new ShareLinkStore(process.env.SHARE_LINKS_FILE_PATH || path.join(process.cwd(), 'data', 'share-links.json'));
+}
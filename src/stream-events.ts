@@ -0,0 +1,66 @@
+import { logger } from './logger';
+
+// Events pushed to a user's open webviews
+export type StreamEventType = 'stream-status' | 'managed-stream-status' | 'stream-retry' | 'battery' | 'stream-stats' | 'recordings' | 'sessions';
+
+// sessionId is the glasses session an event is about, or null for events about the user as a whole
+export type StreamEventListener = (event: StreamEventType, data: any, sessionId: string | null) => void;
+
+/**
+ * Per-user publish/subscribe hub for stream status updates.
+ * Listeners are typically Server-Sent Events connections from the webview.
+ */
+export class StreamEventHub {
+  private listeners: Map<string, Set<StreamEventListener>> = new Map();
+
+  /**
+   * Registers a listener for a user's stream events
+   * @param userId - The user whose events to receive
+   * @param listener - Called for every published event
+   * @returns A function that removes the listener
+   */
+  subscribe(userId: string, listener: StreamEventListener): () => void {
+    let userListeners = this.listeners.get(userId);
+    if (!userListeners) {
+      userListeners = new Set();
+      this.listeners.set(userId, userListeners);
+    }
+    userListeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(userId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  /**
+   * Sends an event to every listener of a user. A failing listener does not affect the others.
+   * @param userId - The user the event belongs to
+   * @param event - The event type
+   * @param data - JSON-serializable payload
+   * @param sessionId - The glasses session the event is about, if any
+   */
+  publish(userId: string, event: StreamEventType, data: any, sessionId: string | null = null): void {
+    const userListeners = this.listeners.get(userId);
+    if (!userListeners) return;
+    for (const listener of userListeners) {
+      try {
+        listener(event, data, sessionId);
+      } catch (error) {
+        logger.error(`Error delivering ${event} event to listener`, { userId, error });
+      }
+    }
+  }
+
+  /**
+   * Number of open listeners for a user
+   * @param userId - The user to count listeners for
+   */
+  listenerCount(userId: string): number {
+    return this.listeners.get(userId)?.size ?? 0;
+  }
+}
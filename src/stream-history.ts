@@ -0,0 +1,299 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+
+export type StreamMode = 'unmanaged' | 'managed';
+
+// A single lifecycle event inside a stream session
+export interface StreamHistoryEvent {
+  at: string;
+  type: string;
+  status?: string;
+  message?: string;
+}
+
+// One stream session from start request to its final status
+export interface StreamHistoryEntry {
+  id: string;
+  mode: StreamMode;
+  // Glasses session the stream ran on; null for entries recorded before sessions were tracked
+  sessionId: string | null;
+  // Destination with the stream key masked, null for managed streams
+  destination: string | null;
+  managedStreamId: string | null;
+  startedAt: string;
+  activeAt: string | null;
+  endedAt: string | null;
+  finalStatus: string | null;
+  errorDetails: string | null;
+  durationMs: number | null;
+  events: StreamHistoryEvent[];
+}
+
+export interface StreamHistoryPage {
+  entries: StreamHistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface StreamHistoryOptions {
+  maxEntriesPerUser: number;
+  maxAgeMs: number;
+  maxEventsPerEntry: number;
+  // Persist history to this JSON file; kept in memory only when omitted
+  filePath?: string;
+}
+
+// How long event writes are batched before the history file is rewritten
+const FLUSH_DELAY_MS = 2000;
+
+export const DEFAULT_STREAM_HISTORY_OPTIONS: StreamHistoryOptions = {
+  maxEntriesPerUser: 100,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  maxEventsPerEntry: 200,
+};
+
+/**
+ * Per-user log of stream sessions with retention limits.
+ * At most one entry per glasses session and mode is open at a time; events are appended to it until it ends.
+ * Events on an open entry are written to the file in batches, ended entries right away.
+ */
+export class StreamHistory {
+  // Entries per user, newest first
+  private entries: Map<string, StreamHistoryEntry[]> = new Map();
+  private openEntries: Map<string, StreamHistoryEntry> = new Map();
+  private options: StreamHistoryOptions;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<StreamHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_STREAM_HISTORY_OPTIONS, ...options };
+    this.load();
+  }
+
+  /**
+   * Opens a new stream session entry, closing any entry of the same mode that was left open
+   * @param userId - The user starting the stream
+   * @param sessionId - The glasses session the stream runs on
+   * @param mode - Unmanaged or managed
+   * @param destination - Masked destination URL for unmanaged streams
+   * @param trigger - What started the stream, e.g. "webview" or "auto-start"
+   * @returns The new entry
+   */
+  startEntry(userId: string, sessionId: string, mode: StreamMode, destination: string | null = null, trigger: string = 'webview'): StreamHistoryEntry {
+    if (this.openEntries.has(this.openKey(userId, sessionId, mode))) {
+      this.endEntry(userId, sessionId, mode, 'superseded');
+    }
+    const entry: StreamHistoryEntry = {
+      id: randomUUID(),
+      mode,
+      sessionId,
+      destination,
+      managedStreamId: null,
+      startedAt: new Date().toISOString(),
+      activeAt: null,
+      endedAt: null,
+      finalStatus: null,
+      errorDetails: null,
+      durationMs: null,
+      events: [],
+    };
+    const userEntries = this.entries.get(userId) || [];
+    userEntries.unshift(entry);
+    this.entries.set(userId, userEntries);
+    this.openEntries.set(this.openKey(userId, sessionId, mode), entry);
+    this.recordEvent(userId, sessionId, mode, 'start-requested', { message: trigger });
+    return entry;
+  }
+
+  /**
+   * Appends an event to the session's open entry for a mode. Ignored if no entry is open.
+   * @param userId - The user the event belongs to
+   * @param sessionId - The glasses session the stream runs on
+   * @param mode - Unmanaged or managed
+   * @param type - Event type, e.g. "status", "retry", "stop-requested"
+   * @param details - Optional status and message
+   */
+  recordEvent(userId: string, sessionId: string, mode: StreamMode, type: string, details: { status?: string; message?: string } = {}): void {
+    const entry = this.openEntries.get(this.openKey(userId, sessionId, mode));
+    if (!entry) return;
+
+    const now = new Date().toISOString();
+    entry.events.push({ at: now, type, ...details });
+    if (entry.events.length > this.options.maxEventsPerEntry) {
+      entry.events.splice(0, entry.events.length - this.options.maxEventsPerEntry);
+    }
+    if (details.status === 'active' && !entry.activeAt) {
+      entry.activeAt = now;
+    }
+    if (details.status === 'error' && details.message) {
+      entry.errorDetails = details.message;
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Records the managed stream ID on the session's open managed entry
+   * @param userId - The user the stream belongs to
+   * @param sessionId - The glasses session the stream runs on
+   * @param managedStreamId - The ID returned by startManagedStream
+   */
+  setManagedStreamId(userId: string, sessionId: string, managedStreamId: string): void {
+    const entry = this.openEntries.get(this.openKey(userId, sessionId, 'managed'));
+    if (entry) {
+      entry.managedStreamId = managedStreamId;
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Closes the session's open entry for a mode
+   * @param userId - The user the stream belongs to
+   * @param sessionId - The glasses session the stream runs on
+   * @param mode - Unmanaged or managed
+   * @param finalStatus - e.g. "stopped", "error", "disconnected"
+   * @param errorDetails - Error that ended the stream, if any
+   */
+  endEntry(userId: string, sessionId: string, mode: StreamMode, finalStatus: string, errorDetails?: string): void {
+    const key = this.openKey(userId, sessionId, mode);
+    const entry = this.openEntries.get(key);
+    if (!entry) return;
+
+    this.openEntries.delete(key);
+    const endedAt = new Date();
+    entry.endedAt = endedAt.toISOString();
+    entry.finalStatus = finalStatus;
+    entry.durationMs = endedAt.getTime() - new Date(entry.startedAt).getTime();
+    if (errorDetails) {
+      entry.errorDetails = errorDetails;
+    }
+    entry.events.push({ at: entry.endedAt, type: 'ended', status: finalStatus, ...(errorDetails ? { message: errorDetails } : {}) });
+    this.prune(userId);
+    this.flush();
+  }
+
+  /**
+   * Whether the session has an open entry for a mode
+   * @param userId - The user to check
+   * @param sessionId - The glasses session to check
+   * @param mode - Unmanaged or managed
+   */
+  hasOpenEntry(userId: string, sessionId: string, mode: StreamMode): boolean {
+    return this.openEntries.has(this.openKey(userId, sessionId, mode));
+  }
+
+  /**
+   * Lists a user's stream sessions, newest first
+   * @param userId - The user to list history for
+   * @param page - 1-based page number
+   * @param pageSize - Entries per page
+   */
+  list(userId: string, page: number = 1, pageSize: number = 20): StreamHistoryPage {
+    this.prune(userId);
+    const userEntries = this.entries.get(userId) || [];
+    const start = (page - 1) * pageSize;
+    return {
+      entries: userEntries.slice(start, start + pageSize),
+      total: userEntries.length,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * ID of the session's open entry for a mode, used to correlate log lines of one stream
+   * @param userId - The user the stream belongs to
+   * @param sessionId - The glasses session the stream runs on
+   * @param mode - Unmanaged or managed
+   * @returns The entry ID, or null if no stream of that mode is open
+   */
+  getOpenEntryId(userId: string, sessionId: string, mode: StreamMode): string | null {
+    return this.openEntries.get(this.openKey(userId, sessionId, mode))?.id ?? null;
+  }
+
+  // Writes any batched events to the file, on shutdown
+  close(): void {
+    if (this.flushTimer) {
+      this.flush();
+    }
+  }
+
+  private openKey(userId: string, sessionId: string, mode: StreamMode): string {
+    return `${userId}:${sessionId}:${mode}`;
+  }
+
+  // Drops closed entries beyond the per-user count limit or older than the age limit
+  private prune(userId: string): void {
+    const userEntries = this.entries.get(userId);
+    if (!userEntries) return;
+
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    const kept = userEntries.filter((entry, index) => {
+      if (!entry.endedAt) return true;
+      return index < this.options.maxEntriesPerUser && new Date(entry.endedAt).getTime() >= cutoff;
+    });
+    this.entries.set(userId, kept);
+  }
+
+  private load(): void {
+    if (!this.options.filePath || !fs.existsSync(this.options.filePath)) return;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.options.filePath, 'utf8'));
+      for (const [userId, userEntries] of Object.entries<StreamHistoryEntry[]>(raw.users || {})) {
+        // Entries left open by a previous process can never be closed, mark them as interrupted
+        for (const entry of userEntries) {
+          entry.sessionId = entry.sessionId ?? null;
+          if (!entry.endedAt) {
+            entry.endedAt = entry.events[entry.events.length - 1]?.at || entry.startedAt;
+            entry.finalStatus = 'interrupted';
+            entry.durationMs = new Date(entry.endedAt).getTime() - new Date(entry.startedAt).getTime();
+          }
+        }
+        this.entries.set(userId, userEntries);
+        this.prune(userId);
+      }
+    } catch (error) {
+      const movedTo = `${this.options.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.options.filePath, movedTo);
+      this.entries.clear();
+      logger.error(`Could not load stream history from ${this.options.filePath}, moved it to ${movedTo} and starting with no history`, { error });
+      return;
+    }
+    logger.info(`Loaded stream history for ${this.entries.size} users from ${this.options.filePath}`);
+  }
+
+  // Status and stats updates arrive often, so rewriting the whole file is deferred and coalesced
+  private scheduleFlush(): void {
+    if (!this.options.filePath || this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref?.();
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.options.filePath) return;
+    fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+    const tmpPath = `${this.options.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ users: Object.fromEntries(this.entries) }));
+    fs.renameSync(tmpPath, this.options.filePath);
+  }
+}
+
+/**
+ * Creates the stream history selected by environment config.
+ * STREAM_HISTORY_STORE=memory keeps history in process memory, anything else persists to STREAM_HISTORY_FILE_PATH.
+ */
+export function createStreamHistory(): StreamHistory {
+  const maxEntriesPerUser = parseInt(process.env.STREAM_HISTORY_MAX_ENTRIES || '', 10) || DEFAULT_STREAM_HISTORY_OPTIONS.maxEntriesPerUser;
+  const maxAgeDays = parseInt(process.env.STREAM_HISTORY_MAX_AGE_DAYS || '', 10);
+  const maxAgeMs = maxAgeDays > 0 ? maxAgeDays * 24 * 60 * 60 * 1000 : DEFAULT_STREAM_HISTORY_OPTIONS.maxAgeMs;
+  const filePath = process.env.STREAM_HISTORY_STORE === 'memory'
+    ? undefined
+    : process.env.STREAM_HISTORY_FILE_PATH || path.join(process.cwd(), 'data', 'stream-history.json');
+  return new StreamHistory({ maxEntriesPerUser, maxAgeMs, filePath });
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { StreamMode } from './stream-history';
+
+// pending: waiting for its start time; running: started by the scheduler; the rest are final
+export type StreamWindowState = 'pending' | 'running' | 'completed' | 'missed' | 'failed' | 'cancelled';
+
+// A time window in which the scheduler keeps a stream running for a user
+export interface StreamWindow {
+  id: string;
+  name: string;
+  mode: StreamMode;
+  startAt: string;
+  // The window closes at endAt or maxDurationMinutes after the stream started, whichever comes first
+  endAt: string | null;
+  maxDurationMinutes: number | null;
+  // Saved destination for unmanaged windows; null uses the user's active destination
+  destinationId: string | null;
+  state: StreamWindowState;
+  startedAt: string | null;
+  endedAt: string | null;
+  // Why the window missed or failed
+  reason: string | null;
+  createdAt: string;
+}
+
+export const MAX_STREAM_WINDOWS_PER_USER = 50;
+export const MAX_STREAM_WINDOW_DURATION_MINUTES = 24 * 60;
+
+export class InvalidStreamWindowError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'InvalidStreamWindowError';
+  }
+}
+
+function parseTime(value: any): number | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Validates a stream window definition
+ * @param input - Raw window definition, usually straight from a request body
+ * @param now - Current time in ms, windows must not end in the past
+ * @returns A list of human readable problems, empty if the window is valid
+ */
+export function validateStreamWindow(input: any, now: number = Date.now()): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Stream window must be an object'];
+  }
+  const errors: string[] = [];
+  if (input.mode !== 'unmanaged' && input.mode !== 'managed') {
+    errors.push('mode must be "unmanaged" or "managed"');
+  }
+  const startAt = parseTime(input.startAt);
+  if (startAt === null) {
+    errors.push('startAt must be an ISO 8601 date');
+  }
+
+  const hasEnd = input.endAt !== undefined && input.endAt !== null && input.endAt !== '';
+  const hasDuration = input.maxDurationMinutes !== undefined && input.maxDurationMinutes !== null && input.maxDurationMinutes !== '';
+  if (!hasEnd && !hasDuration) {
+    errors.push('Either endAt or maxDurationMinutes is required');
+  }
+  if (hasEnd) {
+    const endAt = parseTime(input.endAt);
+    if (endAt === null) {
+      errors.push('endAt must be an ISO 8601 date');
+    } else if (startAt !== null && endAt <= startAt) {
+      errors.push('endAt must be after startAt');
+    } else if (endAt <= now) {
+      errors.push('endAt is in the past');
+    } else if (startAt !== null && endAt - startAt > MAX_STREAM_WINDOW_DURATION_MINUTES * 60000) {
+      errors.push(`A window can last at most ${MAX_STREAM_WINDOW_DURATION_MINUTES} minutes`);
+    }
+  }
+  if (hasDuration) {
+    const minutes = Number(input.maxDurationMinutes);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_STREAM_WINDOW_DURATION_MINUTES) {
+      errors.push(`maxDurationMinutes must be an integer between 1 and ${MAX_STREAM_WINDOW_DURATION_MINUTES}`);
+    } else if (!hasEnd && startAt !== null && startAt + minutes * 60000 <= now) {
+      errors.push('The window is already over');
+    }
+  }
+  if (input.destinationId !== undefined && input.destinationId !== null && typeof input.destinationId !== 'string') {
+    errors.push('destinationId must be a string');
+  }
+  if (input.name !== undefined && typeof input.name !== 'string') {
+    errors.push('name must be a string');
+  }
+  return errors;
+}
+
+/**
+ * Builds a pending stream window from a validated definition
+ * @param input - Window definition that passed validateStreamWindow
+ */
+export function createStreamWindow(input: any): StreamWindow {
+  const startAt = new Date(input.startAt).toISOString();
+  const hasEnd = input.endAt !== undefined && input.endAt !== null && input.endAt !== '';
+  const hasDuration = input.maxDurationMinutes !== undefined && input.maxDurationMinutes !== null && input.maxDurationMinutes !== '';
+  return {
+    id: randomUUID(),
+    name: (input.name || '').trim() || `Stream at ${startAt}`,
+    mode: input.mode,
+    startAt,
+    endAt: hasEnd ? new Date(input.endAt).toISOString() : null,
+    maxDurationMinutes: hasDuration ? Number(input.maxDurationMinutes) : null,
+    destinationId: input.mode === 'unmanaged' ? input.destinationId || null : null,
+    state: 'pending',
+    startedAt: null,
+    endedAt: null,
+    reason: null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * When a window closes, given when it actually started
+ * @param window - The window to check
+ * @returns Close time in ms
+ */
+export function getStreamWindowEnd(window: StreamWindow): number {
+  const ends: number[] = [];
+  if (window.endAt) {
+    ends.push(Date.parse(window.endAt));
+  }
+  if (window.maxDurationMinutes !== null) {
+    const from = window.startedAt ? Date.parse(window.startedAt) : Date.parse(window.startAt);
+    ends.push(from + window.maxDurationMinutes * 60000);
+  }
+  return Math.min(...ends);
+}
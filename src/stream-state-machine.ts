@@ -0,0 +1,243 @@
+import { ManagedStreamStatus, RtmpStreamStatus } from '@mentra/sdk';
+import { StreamMode } from './stream-history';
+import { Logger, logger } from './logger';
+
+// Lifecycle of one stream as this app sees it
+export type StreamPhase = 'idle' | 'starting' | 'live' | 'stopping' | 'retrying' | 'error';
+
+// Transitions this app may request. Status reports from the SDK are applied regardless, since they describe what actually happened.
+const ALLOWED_TRANSITIONS: Record<StreamPhase, StreamPhase[]> = {
+  idle: ['starting'],
+  // idle covers a start that the glasses never acknowledged
+  starting: ['live', 'stopping', 'error', 'idle'],
+  // The glasses cannot restart a live stream in place, it has to be stopped first
+  live: ['stopping', 'error', 'idle'],
+  stopping: ['idle', 'error'],
+  retrying: ['starting', 'stopping', 'idle', 'error'],
+  error: ['starting', 'retrying', 'stopping', 'idle'],
+};
+
+// Phases in which the glasses are busy changing a stream; requests for the other stream wait for them to settle
+const TRANSITIONAL_PHASES: StreamPhase[] = ['starting', 'stopping'];
+
+// How long a request waits for the other stream to settle before it is rejected
+export const STREAM_REQUEST_QUEUE_TIMEOUT_MS = 15000;
+
+export interface StreamTransition {
+  mode: StreamMode;
+  from: StreamPhase;
+  to: StreamPhase;
+  reason: string;
+  at: Date;
+}
+
+export class StreamStateError extends Error {
+  constructor(message: string, public mode: StreamMode, public phase: StreamPhase) {
+    super(message);
+    this.name = 'StreamStateError';
+  }
+}
+
+/**
+ * Maps an unmanaged stream status from the glasses to a phase
+ * @param status - Status reported by the SDK
+ */
+export function phaseForStreamStatus(status: RtmpStreamStatus['status']): StreamPhase {
+  switch (status) {
+    case 'initializing':
+    case 'connecting':
+    case 'reconnecting':
+      return 'starting';
+    case 'active':
+    case 'streaming':
+    case 'reconnected':
+      return 'live';
+    case 'stopping':
+      return 'stopping';
+    case 'error':
+    case 'timeout':
+    case 'reconnect_failed':
+      return 'error';
+    case 'stopped':
+    case 'disconnected':
+    default:
+      return 'idle';
+  }
+}
+
+/**
+ * Maps a managed stream status from the cloud to a phase
+ * @param status - Status reported by the SDK
+ */
+export function phaseForManagedStreamStatus(status: ManagedStreamStatus['status']): StreamPhase {
+  switch (status) {
+    case 'initializing':
+    case 'preparing':
+      return 'starting';
+    case 'active':
+      return 'live';
+    case 'stopping':
+      return 'stopping';
+    case 'error':
+      return 'error';
+    case 'stopped':
+    default:
+      return 'idle';
+  }
+}
+
+/**
+ * Per-user state machine for the unmanaged and managed streams.
+ * The glasses have one camera, so a start or stop of one stream waits while the other is starting or stopping.
+ */
+export class StreamStateMachine {
+  private phases: Record<StreamMode, StreamPhase> = { unmanaged: 'idle', managed: 'idle' };
+  private waiters: Set<() => void> = new Set();
+  private log: Logger;
+
+  /**
+   * @param userId - The user the streams belong to, for logging
+   * @param onTransition - Called after every phase change
+   */
+  constructor(private userId: string, private onTransition?: (transition: StreamTransition) => void) {
+    this.log = logger.child({ userId });
+  }
+
+  /**
+   * Current phase of a stream
+   * @param mode - Unmanaged or managed
+   */
+  getPhase(mode: StreamMode): StreamPhase {
+    return this.phases[mode];
+  }
+
+  // Both phases, for status APIs
+  snapshot(): Record<StreamMode, StreamPhase> {
+    return { ...this.phases };
+  }
+
+  /**
+   * Whether a stream is running or about to run
+   * @param mode - Unmanaged or managed
+   */
+  isActive(mode: StreamMode): boolean {
+    return this.phases[mode] !== 'idle' && this.phases[mode] !== 'error';
+  }
+
+  /**
+   * Whether this app may move a stream to a phase
+   * @param mode - Unmanaged or managed
+   * @param to - The target phase
+   */
+  canTransition(mode: StreamMode, to: StreamPhase): boolean {
+    return ALLOWED_TRANSITIONS[this.phases[mode]].includes(to);
+  }
+
+  /**
+   * Moves a stream to a phase on behalf of this app
+   * @param mode - Unmanaged or managed
+   * @param to - The target phase
+   * @param reason - Why, for logging
+   * @throws {StreamStateError} If the transition is not allowed
+   */
+  transition(mode: StreamMode, to: StreamPhase, reason: string): void {
+    if (!this.canTransition(mode, to)) {
+      throw new StreamStateError(`Cannot move ${mode} stream from ${this.phases[mode]} to ${to}`, mode, this.phases[mode]);
+    }
+    this.apply(mode, to, reason);
+  }
+
+  /**
+   * Applies a phase reported by the SDK, even if this app did not expect it
+   * @param mode - Unmanaged or managed
+   * @param to - The reported phase
+   * @param reason - Where the report came from, for logging
+   */
+  observe(mode: StreamMode, to: StreamPhase, reason: string): void {
+    const from = this.phases[mode];
+    if (from === to) {
+      return;
+    }
+    if (!this.canTransition(mode, to)) {
+      this.log.warn(`Unexpected ${mode} stream transition: ${from} -> ${to} (${reason})`, { mode });
+    }
+    this.apply(mode, to, reason);
+  }
+
+  /**
+   * Requests a start or stop, queueing it while the other stream is starting or stopping
+   * @param mode - The stream to change
+   * @param to - 'starting' or 'stopping'
+   * @param reason - Why, for logging
+   * @param timeoutMs - How long to wait in the queue
+   * @throws {StreamStateError} If the stream is already starting, the transition is not allowed, or the queue times out
+   */
+  async request(mode: StreamMode, to: 'starting' | 'stopping', reason: string, timeoutMs: number = STREAM_REQUEST_QUEUE_TIMEOUT_MS): Promise<void> {
+    const other: StreamMode = mode === 'unmanaged' ? 'managed' : 'unmanaged';
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const phase = this.phases[mode];
+      if (phase === to && to === 'starting') {
+        throw new StreamStateError(`The ${mode} stream is already starting`, mode, phase);
+      }
+      if (phase === to) {
+        return; // A stop is already in progress
+      }
+      const blockedBy = TRANSITIONAL_PHASES.includes(this.phases[other]) ? other
+        : phase === 'stopping' ? mode
+        : null;
+      if (!blockedBy) {
+        break;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new StreamStateError(`Timed out waiting for the ${blockedBy} stream to finish ${this.phases[blockedBy]}`, mode, phase);
+      }
+      this.log.info(`Queueing ${mode} ${to} until the ${blockedBy} stream settles`, { mode });
+      await this.nextChange(remaining);
+    }
+    this.transition(mode, to, reason);
+  }
+
+  /**
+   * Waits until a stream reaches one of the given phases
+   * @param mode - Unmanaged or managed
+   * @param phases - Phases to wait for
+   * @param timeoutMs - How long to wait
+   * @throws {StreamStateError} If the stream has not reached them in time
+   */
+  async waitForPhase(mode: StreamMode, phases: StreamPhase[], timeoutMs: number = STREAM_REQUEST_QUEUE_TIMEOUT_MS): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!phases.includes(this.phases[mode])) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new StreamStateError(`Timed out waiting for the ${mode} stream to become ${phases.join(' or ')}`, mode, this.phases[mode]);
+      }
+      await this.nextChange(remaining);
+    }
+  }
+
+  // Resolves on the next phase change or after timeoutMs, whichever comes first
+  private nextChange(timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.waiters.add(done);
+    });
+  }
+
+  private apply(mode: StreamMode, to: StreamPhase, reason: string): void {
+    const from = this.phases[mode];
+    this.phases[mode] = to;
+    this.log.info(`${mode} stream: ${from} -> ${to} (${reason})`, { mode });
+    this.onTransition?.({ mode, from, to, reason, at: new Date() });
+    for (const wake of Array.from(this.waiters)) {
+      wake();
+    }
+  }
+}
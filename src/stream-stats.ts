@@ -0,0 +1,180 @@
+// One stats report from the glasses. bitrate is in bits per second like the encoding profile; droppedFrames and duration (seconds) count from the start of the stream.
+export interface StreamStatsSample {
+  at: number;
+  bitrate: number;
+  fps: number;
+  droppedFrames: number;
+  duration: number;
+}
+
+export type StreamHealth = 'unknown' | 'good' | 'degraded' | 'failing';
+
+export interface StreamHealthThresholds {
+  // Fractions of the profile's target bitrate
+  degradedBitrateRatio: number;
+  failingBitrateRatio: number;
+  // Fractions of the profile's target frame rate
+  degradedFpsRatio: number;
+  failingFpsRatio: number;
+  // Share of frames dropped within the evaluation window
+  degradedDropRate: number;
+  failingDropRate: number;
+  // How far back health looks
+  windowMs: number;
+  // A live stream that has not reported stats for this long is failing
+  staleAfterMs: number;
+  // Health stays unknown while the encoder ramps up at the start of a stream
+  warmupSeconds: number;
+}
+
+export const DEFAULT_STREAM_HEALTH_THRESHOLDS: StreamHealthThresholds = {
+  degradedBitrateRatio: 0.6,
+  failingBitrateRatio: 0.25,
+  degradedFpsRatio: 0.7,
+  failingFpsRatio: 0.4,
+  degradedDropRate: 0.02,
+  failingDropRate: 0.1,
+  windowMs: 30000,
+  staleAfterMs: 20000,
+  warmupSeconds: 10,
+};
+
+export interface StreamHealthReport {
+  health: StreamHealth;
+  // Why the stream is not good, e.g. "bitrate 0.4 Mbps is 20% of target"
+  reasons: string[];
+  // Window averages the health was computed from
+  averageBitrate: number | null;
+  averageFps: number | null;
+  dropRate: number | null;
+  evaluatedAt: number;
+}
+
+// Samples kept per stream; at one report every few seconds this is well over the chart's range
+export const MAX_STATS_SAMPLES = 600;
+
+const HEALTH_ORDER: Record<StreamHealth, number> = { unknown: 0, good: 1, degraded: 2, failing: 3 };
+
+/**
+ * Rolling time series of one stream's stats
+ */
+export class StreamStatsSeries {
+  private samples: StreamStatsSample[] = [];
+
+  /**
+   * Appends a report, dropping the oldest once the series is full
+   * @param stats - Stats from a status update
+   * @param at - Time of the report in ms
+   * @returns The stored sample
+   */
+  add(stats: Omit<StreamStatsSample, 'at'>, at: number = Date.now()): StreamStatsSample {
+    const sample: StreamStatsSample = {
+      at,
+      bitrate: stats.bitrate,
+      fps: stats.fps,
+      droppedFrames: stats.droppedFrames,
+      duration: stats.duration,
+    };
+    this.samples.push(sample);
+    if (this.samples.length > MAX_STATS_SAMPLES) {
+      this.samples.splice(0, this.samples.length - MAX_STATS_SAMPLES);
+    }
+    return sample;
+  }
+
+  /**
+   * Samples reported at or after a time, oldest first
+   * @param since - Start time in ms; all samples if omitted
+   */
+  list(since: number = 0): StreamStatsSample[] {
+    return this.samples.filter(sample => sample.at >= since);
+  }
+
+  // Most recent sample, or null before the first report
+  latest(): StreamStatsSample | null {
+    return this.samples.length > 0 ? this.samples[this.samples.length - 1] : null;
+  }
+
+  // Forgets all samples, when a new stream starts
+  clear(): void {
+    this.samples = [];
+  }
+}
+
+/**
+ * Computes a stream's health from its recent stats
+ * @param samples - The stream's samples, oldest first
+ * @param target - The encoding profile's target bitrate (bps) and frame rate
+ * @param thresholds - Health limits
+ * @param now - Current time in ms
+ * @returns The health with the reasons it is not good
+ */
+export function evaluateStreamHealth(
+  samples: StreamStatsSample[],
+  target: { bitrate: number; frameRate: number },
+  thresholds: StreamHealthThresholds = DEFAULT_STREAM_HEALTH_THRESHOLDS,
+  now: number = Date.now()
+): StreamHealthReport {
+  const report: StreamHealthReport = { health: 'unknown', reasons: [], averageBitrate: null, averageFps: null, dropRate: null, evaluatedAt: now };
+  const latest = samples[samples.length - 1];
+  if (!latest) {
+    return report;
+  }
+  if (now - latest.at > thresholds.staleAfterMs) {
+    report.health = 'failing';
+    report.reasons.push(`no stats for ${Math.round((now - latest.at) / 1000)}s`);
+    return report;
+  }
+
+  if (latest.duration < thresholds.warmupSeconds) {
+    report.reasons.push('warming up');
+    return report;
+  }
+
+  const recent = samples.filter(sample => sample.at >= now - thresholds.windowMs);
+  report.averageBitrate = recent.reduce((sum, sample) => sum + sample.bitrate, 0) / recent.length;
+  report.averageFps = recent.reduce((sum, sample) => sum + sample.fps, 0) / recent.length;
+
+  // droppedFrames is a running total, so compare the ends of the window; a lower total means the counter restarted
+  const first = recent[0];
+  const droppedInWindow = latest.droppedFrames >= first.droppedFrames ? latest.droppedFrames - first.droppedFrames : latest.droppedFrames;
+  const secondsInWindow = recent.length > 1 ? Math.max(0, latest.duration - first.duration) : 0;
+  const framesInWindow = report.averageFps * secondsInWindow + droppedInWindow;
+  report.dropRate = framesInWindow > 0 ? droppedInWindow / framesInWindow : null;
+
+  const grade = (health: StreamHealth, reason: string) => {
+    if (HEALTH_ORDER[health] > HEALTH_ORDER[report.health]) {
+      report.health = health;
+    }
+    report.reasons.push(reason);
+  };
+  report.health = 'good';
+
+  if (target.bitrate > 0) {
+    const ratio = report.averageBitrate / target.bitrate;
+    const reason = `bitrate ${(report.averageBitrate / 1e6).toFixed(2)} Mbps is ${Math.round(ratio * 100)}% of target`;
+    if (ratio < thresholds.failingBitrateRatio) grade('failing', reason);
+    else if (ratio < thresholds.degradedBitrateRatio) grade('degraded', reason);
+  }
+  if (target.frameRate > 0) {
+    const ratio = report.averageFps / target.frameRate;
+    const reason = `${report.averageFps.toFixed(1)} fps is ${Math.round(ratio * 100)}% of target`;
+    if (ratio < thresholds.failingFpsRatio) grade('failing', reason);
+    else if (ratio < thresholds.degradedFpsRatio) grade('degraded', reason);
+  }
+  if (report.dropRate !== null) {
+    const reason = `${(report.dropRate * 100).toFixed(1)}% of frames dropped`;
+    if (report.dropRate >= thresholds.failingDropRate) grade('failing', reason);
+    else if (report.dropRate >= thresholds.degradedDropRate) grade('degraded', reason);
+  }
+  return report;
+}
+
+/**
+ * Whether a health change should warn the wearer: only a change for the worse into degraded or failing
+ * @param previous - Health before the latest evaluation
+ * @param next - Health after it
+ */
+export function isHealthWorse(previous: StreamHealth, next: StreamHealth): boolean {
+  return HEALTH_ORDER[next] >= HEALTH_ORDER.degraded && HEALTH_ORDER[next] > HEALTH_ORDER[previous];
+}
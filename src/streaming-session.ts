@@ -0,0 +1,24 @@
+import { TpaSession } from '@mentra/sdk';
+
+type SessionEvents = TpaSession['events'];
+
+// Event subscriptions the app makes; each returns a function that removes the handler
+type SessionEventName =
+  'onConnected' | 'onDisconnected' | 'onError' | 'onTranscription' |
+  'onButtonPress' | 'onHeadPosition' | 'onPhoneNotifications' | 'onGlassesBattery';
+
+/**
+ * The parts of a TpaSession the app uses.
+ * A real SDK session fits this shape, and so does an in-memory session that tests drive without a cloud connection.
+ */
+export interface StreamingSession {
+  camera: Pick<TpaSession['camera'],
+    'startStream' | 'stopStream' | 'onStreamStatus' | 'isCurrentlyStreaming' | 'getStreamStatus' |
+    'startManagedStream' | 'stopManagedStream' | 'onManagedStreamStatus' | 'isManagedStreamActive' | 'getManagedStreamUrls' |
+    'requestPhoto'>;
+  layouts: Pick<TpaSession['layouts'], 'showTextWall'>;
+  events: { [Name in SessionEventName]: (handler: Parameters<SessionEvents[Name]>[0]) => () => unknown };
+}
+
+// Opens a session for a session ID and user without going through MentraOS Cloud
+export type SessionFactory = (sessionId: string, userId: string) => StreamingSession | Promise<StreamingSession>;
@@ -0,0 +1,82 @@
+import type { SimpleRtmpStreamingApp } from './app';
+
+// How often open viewer pages get a keep-alive and a check that their link is still active
+const VIEWER_HEARTBEAT_INTERVAL_MS = 20000;
+
+/**
+ * Sets up the public viewer pages for shared managed streams.
+ * These routes need no login; the unguessable token in the URL is the only credential, and responses never include the owner's user ID.
+ * @param exampleApp The app whose Express server gets the routes
+ */
+export function setupViewerRoutes(exampleApp: SimpleRtmpStreamingApp): void {
+  const app = exampleApp.getExpressApp();
+
+  const renderViewer = (req: any, res: any, embed: boolean) => {
+    const token = req.params.token as string;
+    const view = exampleApp.getSharedStream(token, true);
+    if (!view) {
+      return res.status(404).render('viewer', { view: null, token: null, embed });
+    }
+    // Only the embed page may be framed by other sites
+    if (!embed) {
+      res.set('X-Frame-Options', 'DENY');
+    }
+    res.set('Referrer-Policy', 'no-referrer');
+    res.render('viewer', { view, token, embed });
+  };
+
+  // Full-page viewer
+  app.get('/share/:token', (req: any, res: any) => renderViewer(req, res, false));
+
+  // Player-only page for iframes
+  app.get('/share/:token/embed', (req: any, res: any) => renderViewer(req, res, true));
+
+  // Current live state of a shared stream, for viewers that cannot use Server-Sent Events
+  app.get('/share/:token/status', (req: any, res: any) => {
+    const view = exampleApp.getSharedStream(req.params.token as string);
+    if (!view) {
+      return res.status(404).json({ success: false, message: 'This link is not available.' });
+    }
+    res.json({ success: true, stream: view });
+  });
+
+  // Server-Sent Events channel pushing live/offline changes to an open viewer page
+  app.get('/share/:token/events', (req: any, res: any) => {
+    const token = req.params.token as string;
+    const view = exampleApp.getSharedStream(token);
+    if (!view) {
+      return res.status(404).json({ success: false, message: 'This link is not available.' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('stream', view);
+    const stopWatching = exampleApp.watchSharedStream(token, update => send('stream', update));
+
+    const close = () => {
+      clearInterval(heartbeat);
+      stopWatching?.();
+    };
+    const heartbeat = setInterval(() => {
+      // Revoked or expired links stop streaming state to pages that are already open
+      if (!exampleApp.getSharedStream(token)) {
+        send('ended', { message: 'This link is no longer available.' });
+        close();
+        res.end();
+        return;
+      }
+      res.write(': heartbeat\n\n');
+    }, VIEWER_HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', close);
+  });
+}
@@ -0,0 +1,557 @@
+import fs from 'fs';
+import path from 'path';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { RetryPolicy, computeRetryDelay } from './retry-policy';
+import { StreamPhase, StreamTransition } from './stream-state-machine';
+import { logger } from './logger';
+
+// Stream lifecycle events that can be sent to webhooks
+export type WebhookEventType = 'stream.started' | 'stream.active' | 'stream.error' | 'stream.stopped' | 'session.disconnected';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['stream.started', 'stream.active', 'stream.error', 'stream.stopped', 'session.disconnected'];
+
+// A registered receiver. Operator webhooks have no owner and receive events for every user.
+export interface WebhookEndpoint {
+  id: string;
+  ownerUserId: string | null;
+  url: string;
+  // Shared secret for the HMAC signature; only returned when the webhook is created
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  description: string;
+  createdAt: string;
+}
+
+// What the API shows about a webhook after creation
+export type WebhookSummary = Omit<WebhookEndpoint, 'secret'>;
+
+// Body POSTed to a webhook
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType | 'webhook.test';
+  occurredAt: string;
+  userId: string;
+  data: Record<string, any>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+// One payload sent to one webhook, across all its attempts
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  payloadId: string;
+  event: WebhookPayload['event'];
+  userId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt: string | null;
+}
+
+// Stream phases that are announced to webhooks; retrying and stopping are internal
+const WEBHOOK_EVENT_FOR_PHASE: Partial<Record<StreamPhase, WebhookEventType>> = {
+  starting: 'stream.started',
+  live: 'stream.active',
+  error: 'stream.error',
+  idle: 'stream.stopped',
+};
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+// Deliveries kept for the log, across all webhooks
+const MAX_DELIVERY_LOG_ENTRIES = 500;
+
+// Receivers that take longer than this count as failed
+const WEBHOOK_REQUEST_TIMEOUT_MS = 10000;
+
+// Backoff between delivery attempts; reuses the stream retry maths
+export const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 6,
+  initialDelayMs: 5000,
+  maxDelayMs: 10 * 60 * 1000,
+  backoffMultiplier: 3,
+  jitterRatio: 0.2,
+  giveUpAfterMs: 60 * 60 * 1000,
+};
+
+export class WebhookValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid webhook: ${errors.join('; ')}`);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+// Host names that always mean this machine
+const LOCAL_HOST_NAME_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+];
+
+const PRIVATE_ADDRESS_PATTERNS = [
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^::1?$/,
+  /^f[cd][0-9a-f]{2}:/i,
+  /^fe80:/i,
+];
+
+// Resolves a host name to all its addresses
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+async function resolveWithDns(hostname: string): Promise<string[]> {
+  return (await lookup(hostname, { all: true, verbatim: true })).map(result => result.address);
+}
+
+/**
+ * Whether an IP address is on this machine or a private network. IPv4-mapped IPv6 addresses are checked as IPv4.
+ * @param address - An IPv4 or IPv6 address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i);
+  if (mapped) {
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    address = mapped[1] ?? [high >> 8, high & 255, low >> 8, low & 255].join('.');
+  }
+  return PRIVATE_ADDRESS_PATTERNS.some(pattern => pattern.test(address));
+}
+
+// A URL's host without IPv6 brackets or the trailing dot of a fully qualified name
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Whether a URL's host is literally this machine or a private address; names are not resolved
+ * @param url - A parsed webhook URL
+ */
+function isPrivateHost(url: URL): boolean {
+  const hostname = bareHostname(url);
+  return LOCAL_HOST_NAME_PATTERNS.some(pattern => pattern.test(hostname)) || isPrivateAddress(hostname);
+}
+
+/**
+ * Whether a URL's host is, or resolves to, an address on this machine or a private network.
+ * A name that does not resolve counts as public, since a request to it cannot reach anything.
+ * @param url - A parsed webhook URL
+ * @param resolveHost - Resolves the host name
+ */
+export async function resolvesToPrivateAddress(url: URL, resolveHost: HostResolver = resolveWithDns): Promise<boolean> {
+  if (isPrivateHost(url)) {
+    return true;
+  }
+  const hostname = bareHostname(url);
+  if (isIP(hostname)) {
+    return false;
+  }
+  try {
+    return (await resolveHost(hostname)).some(isPrivateAddress);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a webhook registration
+ * @param input - Fields from a request body
+ * @param allowPrivateHosts - Whether the URL may point at a private network; user webhooks may not unless the server allows it
+ * @returns A list of human readable problems, empty if the input is valid
+ */
+export function validateWebhookInput(input: any, allowPrivateHosts: boolean): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Webhook must be an object'];
+  }
+  const errors: string[] = [];
+  let url: URL | null = null;
+  try {
+    url = new URL(String(input.url ?? ''));
+  } catch {
+    errors.push('url must be a valid URL');
+  }
+  if (url && url.protocol !== 'https:' && url.protocol !== 'http:') {
+    errors.push('url must use http or https');
+  }
+  if (url && !allowPrivateHosts && isPrivateHost(url)) {
+    errors.push('url must not point at a private or local address');
+  }
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      errors.push('events must be a non-empty list');
+    } else {
+      const unknown = input.events.filter((event: any) => !WEBHOOK_EVENT_TYPES.includes(event));
+      if (unknown.length > 0) {
+        errors.push(`Unknown events: ${unknown.join(', ')}`);
+      }
+    }
+  }
+  if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < 16)) {
+    errors.push('secret must be a string of at least 16 characters');
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  return errors;
+}
+
+/**
+ * Maps a stream state machine transition to the webhook event it triggers
+ * @param transition - The transition
+ * @returns The event, or null if the transition is not announced
+ */
+export function webhookEventForTransition(transition: StreamTransition): WebhookEventType | null {
+  return WEBHOOK_EVENT_FOR_PHASE[transition.to] ?? null;
+}
+
+/**
+ * Signs a payload the way receivers verify it: HMAC-SHA256 over "<timestamp>.<body>"
+ * @param secret - The webhook's shared secret
+ * @param timestamp - Unix time in seconds, also sent in X-Webhook-Timestamp
+ * @param body - The exact JSON body
+ * @returns Hex digest, sent as "sha256=<digest>" in X-Webhook-Signature
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Registered webhooks and their delivery log.
+ * Kept in memory and, if a file path is given, persisted to it as JSON.
+ */
+export class WebhookStore {
+  private endpoints: Map<string, WebhookEndpoint> = new Map();
+  private deliveries: WebhookDelivery[] = [];
+
+  constructor(private filePath?: string) {
+    this.load();
+  }
+
+  /**
+   * Registers a webhook
+   * @param ownerUserId - The user it belongs to, or null for an operator webhook
+   * @param input - Validated fields from the request
+   * @returns The new webhook, including its secret
+   * @throws {WebhookValidationError} If the user already has the maximum number of webhooks
+   */
+  create(ownerUserId: string | null, input: { url: string; events?: WebhookEventType[]; secret?: string; description?: string }): WebhookEndpoint {
+    if (ownerUserId !== null && this.list(ownerUserId).length >= MAX_WEBHOOKS_PER_USER) {
+      throw new WebhookValidationError([`A user can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`]);
+    }
+    const endpoint: WebhookEndpoint = {
+      id: randomUUID(),
+      ownerUserId,
+      url: input.url,
+      secret: input.secret || `whsec_${randomBytes(24).toString('base64url')}`,
+      events: input.events ?? [...WEBHOOK_EVENT_TYPES],
+      enabled: true,
+      description: (input.description || '').trim(),
+      createdAt: new Date().toISOString(),
+    };
+    this.endpoints.set(endpoint.id, endpoint);
+    this.flush();
+    return endpoint;
+  }
+
+  /**
+   * Lists the webhooks of one owner
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   */
+  list(ownerUserId: string | null): WebhookEndpoint[] {
+    return Array.from(this.endpoints.values()).filter(endpoint => endpoint.ownerUserId === ownerUserId);
+  }
+
+  /**
+   * Finds one of an owner's webhooks
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to find
+   */
+  get(ownerUserId: string | null, webhookId: string): WebhookEndpoint | undefined {
+    const endpoint = this.endpoints.get(webhookId);
+    return endpoint && endpoint.ownerUserId === ownerUserId ? endpoint : undefined;
+  }
+
+  /**
+   * Turns one of an owner's webhooks on or off
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to change
+   * @param enabled - Whether it should receive events
+   * @returns The updated webhook, or undefined if the owner has no such webhook
+   */
+  setEnabled(ownerUserId: string | null, webhookId: string, enabled: boolean): WebhookEndpoint | undefined {
+    const endpoint = this.get(ownerUserId, webhookId);
+    if (endpoint) {
+      endpoint.enabled = enabled;
+      this.flush();
+    }
+    return endpoint;
+  }
+
+  /**
+   * Deletes one of an owner's webhooks; its deliveries stay in the log
+   * @param ownerUserId - A user ID, or null for operator webhooks
+   * @param webhookId - The webhook to delete
+   * @returns true if the webhook existed
+   */
+  remove(ownerUserId: string | null, webhookId: string): boolean {
+    if (!this.get(ownerUserId, webhookId)) {
+      return false;
+    }
+    this.endpoints.delete(webhookId);
+    this.flush();
+    return true;
+  }
+
+  /**
+   * Enabled webhooks that want an event for a user: the user's own plus all operator webhooks
+   * @param userId - The user the event is about
+   * @param event - The event type
+   */
+  findSubscribers(userId: string, event: WebhookEventType): WebhookEndpoint[] {
+    return Array.from(this.endpoints.values()).filter(endpoint =>
+      endpoint.enabled &&
+      (endpoint.ownerUserId === null || endpoint.ownerUserId === userId) &&
+      endpoint.events.includes(event)
+    );
+  }
+
+  /**
+   * Adds or updates a delivery in the log
+   * @param delivery - The delivery; entries are matched by ID
+   */
+  saveDelivery(delivery: WebhookDelivery): void {
+    const index = this.deliveries.findIndex(existing => existing.id === delivery.id);
+    if (index === -1) {
+      this.deliveries.unshift(delivery);
+      if (this.deliveries.length > MAX_DELIVERY_LOG_ENTRIES) {
+        this.deliveries.length = MAX_DELIVERY_LOG_ENTRIES;
+      }
+    } else {
+      this.deliveries[index] = delivery;
+    }
+    this.flush();
+  }
+
+  /**
+   * Lists deliveries to the given webhooks, newest first
+   * @param webhookIds - Webhooks to include
+   * @param limit - Maximum number of entries to return
+   */
+  listDeliveries(webhookIds: string[], limit: number = 50): WebhookDelivery[] {
+    return this.deliveries.filter(delivery => webhookIds.includes(delivery.webhookId)).slice(0, limit);
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const endpoint of (raw.endpoints || []) as WebhookEndpoint[]) {
+        this.endpoints.set(endpoint.id, endpoint);
+      }
+      this.deliveries = raw.deliveries || [];
+    } catch (error) {
+      // Set the corrupt file aside rather than refuse to boot
+      const movedTo = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, movedTo);
+      this.endpoints.clear();
+      this.deliveries = [];
+      logger.error(`Could not load webhooks from ${this.filePath}, moved it to ${movedTo} and starting with no webhooks`, { error });
+      return;
+    }
+    // Retry timers do not survive a restart
+    for (const delivery of this.deliveries) {
+      if (delivery.status === 'pending' || delivery.status === 'retrying') {
+        delivery.status = 'failed';
+        delivery.error = 'Server restarted before the delivery finished';
+        delivery.nextAttemptAt = null;
+      }
+    }
+    logger.info(`Loaded ${this.endpoints.size} webhooks from ${this.filePath}`);
+  }
+
+  private flush(): void {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ endpoints: Array.from(this.endpoints.values()), deliveries: this.deliveries }));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+export interface WebhookDeliveryOptions {
+  // Whether user webhooks may reach private and loopback addresses; operator webhooks always may
+  allowPrivateHosts?: boolean;
+  // Resolves webhook host names before each attempt, DNS by default
+  resolveHost?: HostResolver;
+}
+
+/**
+ * Sends signed payloads to webhooks, retrying failed deliveries with backoff.
+ * Retries are in-process timers, so deliveries still pending at shutdown are marked failed rather than resumed.
+ * Unless private hosts are allowed, a user webhook whose host resolves to a private address is not called; the check runs
+ * at every attempt, since a name that was public when the webhook was registered may point elsewhere later.
+ */
+export class WebhookDispatcher {
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  /**
+   * @param store - Registered webhooks and the delivery log
+   * @param retryPolicy - Backoff between attempts
+   * @param options - Private address policy and host resolution
+   */
+  constructor(private store: WebhookStore, private retryPolicy: RetryPolicy = WEBHOOK_RETRY_POLICY, private options: WebhookDeliveryOptions = {}) {}
+
+  /**
+   * Sends an event to every webhook subscribed to it; returns once the first attempts are queued
+   * @param userId - The user the event is about
+   * @param event - The event type
+   * @param data - Event details
+   */
+  dispatch(userId: string, event: WebhookEventType, data: Record<string, any>): void {
+    const subscribers = this.store.findSubscribers(userId, event);
+    if (subscribers.length === 0) {
+      return;
+    }
+    const payload: WebhookPayload = { id: randomUUID(), event, occurredAt: new Date().toISOString(), userId, data };
+    for (const endpoint of subscribers) {
+      this.attempt(endpoint, payload, this.createDelivery(endpoint, payload), true)
+        .catch(error => logger.error('Webhook delivery crashed', { webhookId: endpoint.id, error }));
+    }
+  }
+
+  /**
+   * Sends a test payload to one webhook, once and without retries
+   * @param endpoint - The webhook to test
+   * @param userId - The user shown in the payload
+   * @returns The finished delivery
+   */
+  async sendTest(endpoint: WebhookEndpoint, userId: string): Promise<WebhookDelivery> {
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event: 'webhook.test',
+      occurredAt: new Date().toISOString(),
+      userId,
+      data: { message: 'This is a test delivery.' },
+    };
+    return this.attempt(endpoint, payload, this.createDelivery(endpoint, payload), false);
+  }
+
+  // Cancels pending retries, for server shutdown
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private createDelivery(endpoint: WebhookEndpoint, payload: WebhookPayload): WebhookDelivery {
+    const now = new Date().toISOString();
+    return {
+      id: randomUUID(),
+      webhookId: endpoint.id,
+      payloadId: payload.id,
+      event: payload.event,
+      userId: payload.userId,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: null,
+    };
+  }
+
+  // Makes one attempt and, if it fails and retries are allowed, schedules the next
+  private async attempt(endpoint: WebhookEndpoint, payload: WebhookPayload, delivery: WebhookDelivery, retry: boolean): Promise<WebhookDelivery> {
+    delivery.attempts++;
+    const { ok, responseStatus, error } = await this.post(endpoint, payload);
+    delivery.responseStatus = responseStatus;
+    delivery.error = error;
+    delivery.updatedAt = new Date().toISOString();
+    delivery.nextAttemptAt = null;
+
+    if (ok) {
+      delivery.status = 'delivered';
+    } else if (retry && delivery.attempts < this.retryPolicy.maxAttempts &&
+      Date.now() - Date.parse(delivery.createdAt) < this.retryPolicy.giveUpAfterMs) {
+      const delay = computeRetryDelay(this.retryPolicy, delivery.attempts);
+      delivery.status = 'retrying';
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        // Skip the retry if the webhook was deleted or disabled meanwhile
+        const current = this.store.get(endpoint.ownerUserId, endpoint.id);
+        if (!current || !current.enabled) {
+          delivery.status = 'failed';
+          delivery.error = 'Webhook was removed or disabled before the retry';
+          delivery.nextAttemptAt = null;
+          this.store.saveDelivery(delivery);
+          return;
+        }
+        this.attempt(current, payload, delivery, true)
+          .catch(error => logger.error('Webhook delivery crashed', { webhookId: endpoint.id, error }));
+      }, delay);
+      this.timers.add(timer);
+    } else {
+      delivery.status = 'failed';
+    }
+
+    logger.info(`Webhook ${payload.event} attempt ${delivery.attempts}: ${delivery.status}`, { webhookId: endpoint.id, userId: payload.userId, responseStatus, error });
+    this.store.saveDelivery(delivery);
+    return delivery;
+  }
+
+  // POSTs a signed payload; never throws
+  private async post(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<{ ok: boolean; responseStatus: number | null; error: string | null }> {
+    if (endpoint.ownerUserId !== null && !this.options.allowPrivateHosts &&
+      await resolvesToPrivateAddress(new URL(endpoint.url), this.options.resolveHost)) {
+      return { ok: false, responseStatus: null, error: 'url resolves to a private or local address' };
+    }
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'mentraos-rtmp-webhooks/1.0',
+          'X-Webhook-Id': payload.id,
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_REQUEST_TIMEOUT_MS),
+      });
+      if (response.ok) {
+        return { ok: true, responseStatus: response.status, error: null };
+      }
+      return { ok: false, responseStatus: response.status, error: `Receiver responded with HTTP ${response.status}` };
+    } catch (error: any) {
+      return { ok: false, responseStatus: null, error: error?.name === 'TimeoutError' ? 'Request timed out' : (error?.message || 'Request failed') };
+    }
+  }
+}
+
+/**
+ * Creates the webhook store selected by environment config.
+ * WEBHOOKS_STORE=memory keeps webhooks in process memory, anything else persists to WEBHOOKS_FILE_PATH.
+ */
+export function createWebhookStore(): WebhookStore {
+  if (process.env.WEBHOOKS_STORE === 'memory') {
+    return new WebhookStore();
+  }
+  return new WebhookStore(process.env.WEBHOOKS_FILE_PATH || path.join(process.cwd(), 'data', 'webhooks.json'));
+}
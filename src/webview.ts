@@ -1,16 +1,31 @@
-import { AppServer, AuthenticatedRequest, TpaServer } from '@mentra/sdk';
+import { AuthenticatedRequest } from '@mentra/sdk';
 import express from 'express';
+import fs from 'fs';
 import path from 'path';
-import { SimpleRtmpStreamingApp } from './index'; // Import the app class
+import type { SimpleRtmpStreamingApp } from './app';
+import { InvalidEncodingProfileError } from './encoding-profiles';
+import { DestinationNotFoundError, maskDestination, maskRtmpUrl } from './destinations';
+import { RtmpUrlValidationError } from './rtmp-url';
+import { validateRetryPolicy } from './retry-policy';
+import { validateBatteryPolicy } from './battery-policy';
+import { InvalidStreamWindowError } from './stream-schedule';
+import { StreamStateError } from './stream-state-machine';
+import { ShareLinkError, ShareLinkSummary } from './share-links';
+import { WebhookValidationError } from './webhooks';
+import { RecordingError } from './recordings';
+import { logger } from './logger';
+
+// How often to send a keep-alive comment on open Server-Sent Events connections
+const SSE_HEARTBEAT_INTERVAL_MS = 25000;
+
+const MAX_HISTORY_PAGE_SIZE = 100;
 
 /**
  * Sets up all Express routes and middleware for the TPA server
- * test
- * @param serverInstance The TPA server instance, cast to SimpleRtmpStreamingApp for specific methods
+ * @param exampleApp The app whose Express server gets the routes
  */
-export function setupExpressRoutes(serverInstance: AppServer): void {
-  const app = serverInstance.getExpressApp();
-  const exampleApp = serverInstance as SimpleRtmpStreamingApp;
+export function setupExpressRoutes(exampleApp: SimpleRtmpStreamingApp): void {
+  const app = exampleApp.getExpressApp();
 
   // Set up EJS as the view engine
   app.set('view engine', 'ejs');
@@ -40,7 +55,14 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
     res.render('webview', {
       userId: userId,
       rtmpUrl: rtmpUrlToShow,
-      streamStatus: streamStatusToShow
+      streamStatus: streamStatusToShow,
+      encodingProfiles: userId ? exampleApp.getEncodingProfilesForUser(userId) : [],
+      encodingProfileId: userId ? exampleApp.getEncodingProfileForUser(userId).id : null,
+      settings: userId ? exampleApp.getUserSettings(userId) : null,
+      destinationConfirmed: userId ? exampleApp.isDestinationConfirmedForUser(userId) : false,
+      destinations: userId ? exampleApp.getDestinationsForUser(userId).map(maskDestination) : [],
+      activeDestinationId: userId ? exampleApp.getActiveDestinationForUser(userId)?.id ?? null : null,
+      recordingAvailable: exampleApp.isRecordingAvailable()
     });
   });
 
@@ -56,14 +78,117 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
         message: "User not authenticated. Showing default info."
       });
     }
-    res.json({
-      rtmpUrl: exampleApp.getRtmpUrlForUser(userId),
-      streamStatus: exampleApp.getStreamStatusForUser(userId),
-      managedStreamStatus: exampleApp.getManagedStreamStatusForUser(userId),
-      userId: userId
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
+    res.json(getStreamInfo(userId, sessionId));
+  });
+
+  // API endpoint listing the authenticated user's connected glasses sessions, most recently connected first
+  app.get('/api/sessions', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, sessions: exampleApp.getSessionsForUser(userId) });
+  });
+
+  // API endpoint to get the recent stats and health of the authenticated user's unmanaged stream; stats is null without a session
+  app.get('/api/stream-stats', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
+    res.json({ success: true, stats: exampleApp.getStreamStatsForUser(userId, sessionId) });
+  });
+
+  // API endpoint to page through the authenticated user's stream session history, newest first
+  app.get('/api/stream-history', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const page = req.query.page === undefined ? 1 : parseInt(String(req.query.page), 10);
+    const pageSize = req.query.pageSize === undefined ? 20 : parseInt(String(req.query.pageSize), 10);
+    if (!(page >= 1)) {
+      return res.status(400).json({ success: false, message: 'page must be a positive integer.' });
+    }
+    if (!(pageSize >= 1 && pageSize <= MAX_HISTORY_PAGE_SIZE)) {
+      return res.status(400).json({ success: false, message: `pageSize must be between 1 and ${MAX_HISTORY_PAGE_SIZE}.` });
+    }
+
+    res.json({ success: true, ...exampleApp.getStreamHistoryForUser(userId, page, pageSize) });
+  });
+
+  // Server-Sent Events channel pushing stream status updates for the authenticated user.
+  // Updates about one glasses session are only sent for the requested session, or for the most recently connected one.
+  app.get('/api/stream-events', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Start with a full snapshot so the page is current even if it missed updates while disconnected
+    send('snapshot', getStreamInfo(userId, sessionId));
+    const unsubscribe = exampleApp.subscribeToStreamEvents(userId, (event, data, eventSessionId) => {
+      if (eventSessionId && eventSessionId !== (sessionId ?? exampleApp.getPrimarySessionIdForUser(userId))) {
+        return;
+      }
+      send(event, data);
+    });
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
     });
   });
 
+  // Current stream info for one of a user's sessions, shared by /api/stream-info and the stream events snapshot
+  function getStreamInfo(userId: string, sessionId?: string) {
+    const rtmpUrl = exampleApp.getRtmpUrlForUser(userId);
+    return {
+      rtmpUrl: rtmpUrl ? maskRtmpUrl(rtmpUrl) : rtmpUrl,
+      activeDestinationId: exampleApp.getActiveDestinationForUser(userId)?.id ?? null,
+      streamStatus: exampleApp.getStreamStatusForUser(userId, sessionId),
+      managedStreamStatus: exampleApp.getManagedStreamStatusForUser(userId, sessionId),
+      encodingProfileId: exampleApp.getEncodingProfileForUser(userId).id,
+      retry: exampleApp.getRetryInfoForUser(userId, sessionId),
+      streamState: exampleApp.getStreamPhasesForUser(userId, sessionId),
+      battery: exampleApp.getBatteryStatusForUser(userId, sessionId),
+      sessionId: sessionId ?? exampleApp.getPrimarySessionIdForUser(userId),
+      sessions: exampleApp.getSessionsForUser(userId),
+      userId: userId
+    };
+  }
+
+  // Glasses session a request targets, from the sessionId query parameter or body field; undefined means the most recently connected one
+  function requestedSessionId(req: AuthenticatedRequest): string | undefined {
+    const sessionId = req.query.sessionId ?? req.body?.sessionId;
+    return typeof sessionId === 'string' && sessionId !== '' ? sessionId : undefined;
+  }
+
   // API endpoint to update RTMP URL for the authenticated user
   app.post('/api/rtmp-url', (req: AuthenticatedRequest, res: any) => {
     const userId = req.authUserId;
@@ -93,11 +218,14 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
       res.json({
         success: true,
         message: 'RTMP URL updated successfully for user.',
-        newRtmpUrl: rtmpUrl,
+        newRtmpUrl: maskRtmpUrl(rtmpUrl),
         userId: userId
       });
     } catch (error: any) {
-      console.error(`Error updating RTMP URL for user ${userId}:`, error);
+      if (error instanceof RtmpUrlValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      logger.error('Error updating RTMP URL', { userId, error });
       res.status(500).json({
         success: false,
         message: error.message || 'Failed to update RTMP URL.'
@@ -105,17 +233,639 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
     }
   });
 
+  // API endpoint to list the saved RTMP destinations for the authenticated user (stream keys masked)
+  app.get('/api/destinations', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({
+      success: true,
+      destinations: exampleApp.getDestinationsForUser(userId).map(maskDestination),
+      activeDestinationId: exampleApp.getActiveDestinationForUser(userId)?.id ?? null
+    });
+  });
+
+  // API endpoint to add a named RTMP destination for the authenticated user
+  app.post('/api/destinations', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { name, rtmpUrl, makeActive } = req.body;
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ success: false, message: 'Destination name is required in request body.' });
+    }
+    if (!rtmpUrl || typeof rtmpUrl !== 'string') {
+      return res.status(400).json({ success: false, message: 'RTMP URL is required in request body.' });
+    }
+
+    try {
+      const destination = exampleApp.addDestinationForUser(userId, name, rtmpUrl, makeActive === true);
+      res.json({ success: true, message: 'Destination added.', destination: maskDestination(destination) });
+    } catch (error: any) {
+      if (error instanceof RtmpUrlValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      logger.error('Error adding destination', { userId, error });
+      res.status(500).json({ success: false, message: error.message || 'Failed to add destination.' });
+    }
+  });
+
+  // API endpoint to rename a destination or change its URL
+  app.put('/api/destinations/:destinationId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { name, rtmpUrl } = req.body;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ success: false, message: 'Destination name must be a non-empty string.' });
+    }
+    if (rtmpUrl !== undefined && (typeof rtmpUrl !== 'string' || !rtmpUrl)) {
+      return res.status(400).json({ success: false, message: 'RTMP URL must be a non-empty string.' });
+    }
+
+    try {
+      const destination = exampleApp.updateDestinationForUser(userId, req.params.destinationId as string, { name, rtmpUrl });
+      if (!destination) {
+        return res.status(404).json({ success: false, message: 'Destination not found.' });
+      }
+      res.json({ success: true, message: 'Destination updated.', destination: maskDestination(destination) });
+    } catch (error: any) {
+      if (error instanceof RtmpUrlValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      logger.error('Error updating destination', { userId, error });
+      res.status(500).json({ success: false, message: error.message || 'Failed to update destination.' });
+    }
+  });
+
+  // API endpoint to check that an RTMP ingest is reachable and answers the RTMP handshake
+  app.post('/api/destinations/test', async (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { rtmpUrl, destinationId } = req.body;
+    if (rtmpUrl !== undefined && typeof rtmpUrl !== 'string') {
+      return res.status(400).json({ success: false, message: 'RTMP URL must be a string.' });
+    }
+
+    try {
+      const result = await exampleApp.testDestinationForUser(userId, { rtmpUrl, destinationId });
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error instanceof RtmpUrlValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      if (error instanceof DestinationNotFoundError) {
+        return res.status(404).json({ success: false, message: 'Destination not found.' });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to test destination.' });
+    }
+  });
+
+  // API endpoint to delete a destination
+  app.delete('/api/destinations/:destinationId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    if (!exampleApp.deleteDestinationForUser(userId, req.params.destinationId as string)) {
+      return res.status(404).json({ success: false, message: 'Destination not found.' });
+    }
+    res.json({
+      success: true,
+      message: 'Destination deleted.',
+      activeDestinationId: exampleApp.getActiveDestinationForUser(userId)?.id ?? null
+    });
+  });
+
+  // API endpoint to mark a destination as active for the authenticated user
+  app.post('/api/destinations/:destinationId/activate', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const destination = exampleApp.setActiveDestinationForUser(userId, req.params.destinationId as string);
+    if (!destination) {
+      return res.status(404).json({ success: false, message: 'Destination not found.' });
+    }
+    res.json({ success: true, message: `Active destination set to ${destination.name}.`, destination: maskDestination(destination) });
+  });
+
+  // API endpoint to list the encoding profiles available to the authenticated user
+  app.get('/api/encoding-profiles', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({
+      success: true,
+      profiles: exampleApp.getEncodingProfilesForUser(userId),
+      selectedProfileId: exampleApp.getEncodingProfileForUser(userId).id
+    });
+  });
+
+  // API endpoint to select the encoding profile for the authenticated user
+  app.post('/api/encoding-profile', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { profileId } = req.body;
+    if (!profileId || typeof profileId !== 'string') {
+      return res.status(400).json({ success: false, message: 'profileId is required in request body.' });
+    }
+
+    try {
+      const profile = exampleApp.setEncodingProfileForUser(userId, profileId);
+      res.json({ success: true, message: 'Encoding profile updated.', profile: profile });
+    } catch (error: any) {
+      if (error instanceof InvalidEncodingProfileError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to update encoding profile.' });
+    }
+  });
+
+  // API endpoint to create or replace a custom encoding profile for the authenticated user
+  app.post('/api/encoding-profiles', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const profile = exampleApp.saveCustomEncodingProfileForUser(userId, req.body);
+      res.json({ success: true, message: 'Custom encoding profile saved.', profile: profile });
+    } catch (error: any) {
+      if (error instanceof InvalidEncodingProfileError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to save encoding profile.' });
+    }
+  });
+
+  // API endpoint to delete a custom encoding profile for the authenticated user
+  app.delete('/api/encoding-profiles/:profileId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const removed = exampleApp.deleteCustomEncodingProfileForUser(userId, req.params.profileId as string);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: 'Custom encoding profile not found.' });
+    }
+    res.json({ success: true, message: 'Custom encoding profile deleted.' });
+  });
+
+  // API endpoint to get the auto-start rules for the authenticated user
+  app.get('/api/auto-start-settings', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const settings = exampleApp.getUserSettings(userId);
+    res.json({
+      success: true,
+      autoStartPolicy: settings.autoStartPolicy,
+      captureInitialPhoto: settings.captureInitialPhoto,
+      destinationConfirmed: exampleApp.isDestinationConfirmedForUser(userId)
+    });
+  });
+
+  // API endpoint to update the auto-start rules for the authenticated user
+  app.post('/api/auto-start-settings', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { autoStartPolicy, captureInitialPhoto, confirmDestination } = req.body;
+    if (captureInitialPhoto !== undefined && typeof captureInitialPhoto !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'captureInitialPhoto must be a boolean.' });
+    }
+    if (confirmDestination !== undefined && typeof confirmDestination !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'confirmDestination must be a boolean.' });
+    }
+
+    try {
+      const settings = exampleApp.setAutoStartSettingsForUser(userId, { autoStartPolicy, captureInitialPhoto, confirmDestination });
+      res.json({
+        success: true,
+        message: 'Auto-start settings updated.',
+        autoStartPolicy: settings.autoStartPolicy,
+        captureInitialPhoto: settings.captureInitialPhoto,
+        destinationConfirmed: exampleApp.isDestinationConfirmedForUser(userId)
+      });
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message || 'Failed to update auto-start settings.' });
+    }
+  });
+
+  // API endpoint to get the hands-free control settings for the authenticated user
+  app.get('/api/glasses-control', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, glassesControl: exampleApp.getGlassesControlForUser(userId) });
+  });
+
+  // API endpoint to turn voice, button and head gesture control on or off for the authenticated user
+  app.post('/api/glasses-control', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { voice, button, headGesture } = req.body;
+    const changes = Object.fromEntries(Object.entries({ voice, button, headGesture }).filter(([, value]) => value !== undefined));
+    try {
+      const glassesControl = exampleApp.setGlassesControlForUser(userId, changes);
+      res.json({ success: true, message: 'Hands-free settings updated.', glassesControl: glassesControl });
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message || 'Failed to update hands-free settings.' });
+    }
+  });
+
+  // API endpoint to get the automatic reconnect policy for the authenticated user
+  app.get('/api/retry-policy', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, retryPolicy: exampleApp.getRetryPolicyForUser(userId) });
+  });
+
+  // API endpoint to update the automatic reconnect policy for the authenticated user
+  app.post('/api/retry-policy', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { enabled, maxAttempts, initialDelayMs, maxDelayMs, backoffMultiplier, jitterRatio, giveUpAfterMs } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ enabled, maxAttempts, initialDelayMs, maxDelayMs, backoffMultiplier, jitterRatio, giveUpAfterMs })
+        .filter(([, value]) => value !== undefined)
+    );
+    const errors = validateRetryPolicy(changes);
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: 'Invalid retry policy.', errors: errors });
+    }
+
+    try {
+      const retryPolicy = exampleApp.setRetryPolicyForUser(userId, changes);
+      res.json({ success: true, message: 'Retry policy updated.', retryPolicy: retryPolicy });
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message || 'Failed to update retry policy.' });
+    }
+  });
+
+  // API endpoint to get the low battery policy for the authenticated user
+  app.get('/api/battery-policy', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, batteryPolicy: exampleApp.getBatteryPolicyForUser(userId), battery: exampleApp.getBatteryStatusForUser(userId) });
+  });
+
+  // API endpoint to update the low battery policy for the authenticated user
+  app.post('/api/battery-policy', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { enabled, warnLevel, criticalLevel, stepDownProfileId } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ enabled, warnLevel, criticalLevel, stepDownProfileId }).filter(([, value]) => value !== undefined)
+    );
+    const errors = validateBatteryPolicy(changes);
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: 'Invalid battery policy.', errors: errors });
+    }
+
+    try {
+      const batteryPolicy = exampleApp.setBatteryPolicyForUser(userId, changes);
+      res.json({ success: true, message: 'Battery policy updated.', batteryPolicy: batteryPolicy });
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message || 'Failed to update battery policy.' });
+    }
+  });
+
+  // API endpoint to list the scheduled stream windows of the authenticated user
+  app.get('/api/stream-schedule', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, windows: exampleApp.getStreamWindowsForUser(userId) });
+  });
+
+  // API endpoint to schedule a stream window for the authenticated user
+  app.post('/api/stream-schedule', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const window = exampleApp.addStreamWindowForUser(userId, req.body);
+      res.json({ success: true, message: 'Stream scheduled.', window: window });
+    } catch (error: any) {
+      if (error instanceof InvalidStreamWindowError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to schedule stream.' });
+    }
+  });
+
+  // API endpoint to cancel a scheduled stream window, stopping its stream if it is running
+  app.delete('/api/stream-schedule/:windowId', async (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const window = await exampleApp.cancelStreamWindowForUser(userId, req.params.windowId as string);
+      if (!window) {
+        return res.status(404).json({ success: false, message: 'Scheduled stream not found.' });
+      }
+      res.json({ success: true, message: 'Scheduled stream cancelled.', window: window });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message || 'Failed to cancel scheduled stream.' });
+    }
+  });
+
+  // Adds the public viewer URL and an iframe snippet to a share link for the owner to copy
+  const withShareUrls = (req: any, link: ShareLinkSummary) => {
+    const protocol = req.headers['x-forwarded-proto'] || req.protocol;
+    const url = `${protocol}://${req.get('host')}/share/${link.token}`;
+    return {
+      ...link,
+      url: url,
+      embedHtml: `<iframe src="${url}/embed" width="640" height="360" frameborder="0" allow="autoplay; fullscreen" allowfullscreen></iframe>`
+    };
+  };
+
+  // API endpoint to list the share links of the authenticated user
+  app.get('/api/share-links', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const links = exampleApp.getShareLinksForUser(userId).map(link => withShareUrls(req, link));
+    res.json({ success: true, links: links });
+  });
+
+  // API endpoint to create a public viewer link for the managed stream of the authenticated user
+  app.post('/api/share-links', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const { label, expiresInHours } = req.body || {};
+    if (label !== undefined && typeof label !== 'string') {
+      return res.status(400).json({ success: false, message: 'label must be a string.' });
+    }
+    if (expiresInHours !== undefined && typeof expiresInHours !== 'number') {
+      return res.status(400).json({ success: false, message: 'expiresInHours must be a number.' });
+    }
+    try {
+      const link = exampleApp.createShareLinkForUser(userId, label || '', expiresInHours);
+      res.json({ success: true, message: 'Share link created.', link: withShareUrls(req, link) });
+    } catch (error: any) {
+      if (error instanceof ShareLinkError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to create share link.' });
+    }
+  });
+
+  // API endpoint to revoke a share link; open viewer pages are disconnected on their next check
+  app.delete('/api/share-links/:linkId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const link = exampleApp.revokeShareLinkForUser(userId, req.params.linkId as string);
+    if (!link) {
+      return res.status(404).json({ success: false, message: 'Share link not found.' });
+    }
+    res.json({ success: true, message: 'Share link revoked.', link: withShareUrls(req, link) });
+  });
+
+  // API endpoint to list the webhooks of the authenticated user, without their secrets
+  app.get('/api/webhooks', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({ success: true, webhooks: exampleApp.getWebhooks(userId) });
+  });
+
+  // API endpoint to register a webhook; the response holds the signing secret, which is not shown again
+  app.post('/api/webhooks', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const webhook = exampleApp.createWebhook(userId, req.body);
+      res.json({ success: true, message: 'Webhook registered. Store the secret now, it will not be shown again.', webhook: webhook });
+    } catch (error: any) {
+      if (error instanceof WebhookValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to register webhook.' });
+    }
+  });
+
+  // API endpoint to enable or disable a webhook
+  app.put('/api/webhooks/:webhookId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'enabled must be a boolean.' });
+    }
+    const webhook = exampleApp.setWebhookEnabled(userId, req.params.webhookId as string, req.body.enabled);
+    if (!webhook) {
+      return res.status(404).json({ success: false, message: 'Webhook not found.' });
+    }
+    res.json({ success: true, message: `Webhook ${webhook.enabled ? 'enabled' : 'disabled'}.`, webhook: webhook });
+  });
+
+  // API endpoint to delete a webhook
+  app.delete('/api/webhooks/:webhookId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    if (!exampleApp.deleteWebhook(userId, req.params.webhookId as string)) {
+      return res.status(404).json({ success: false, message: 'Webhook not found.' });
+    }
+    res.json({ success: true, message: 'Webhook deleted.' });
+  });
+
+  // API endpoint to send a test payload to a webhook and report how the receiver answered
+  app.post('/api/webhooks/:webhookId/test', async (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const delivery = await exampleApp.testWebhook(userId, req.params.webhookId as string);
+      if (!delivery) {
+        return res.status(404).json({ success: false, message: 'Webhook not found.' });
+      }
+      const delivered = delivery.status === 'delivered';
+      res.json({ success: delivered, message: delivered ? 'Test delivered.' : `Test failed: ${delivery.error}`, delivery: delivery });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message || 'Failed to send test.' });
+    }
+  });
+
+  // API endpoint listing recent deliveries to the webhooks of the authenticated user
+  app.get('/api/webhook-deliveries', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const limit = Math.min(parseInt(String(req.query.limit || '50'), 10) || 50, 200);
+    res.json({ success: true, deliveries: exampleApp.getWebhookDeliveries(userId, limit) });
+  });
+
+  // API endpoint to get the recording mode of the authenticated user and the server's retention limits
+  app.get('/api/recording-settings', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    res.json({
+      success: true,
+      available: exampleApp.isRecordingAvailable(),
+      recordingMode: exampleApp.getRecordingModeForUser(userId),
+      retention: exampleApp.getRecordingRetention()
+    });
+  });
+
+  // API endpoint to turn recording of the authenticated user's streams on or off; applies from the next stream start
+  app.post('/api/recording-settings', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+
+    const { recordingMode } = req.body;
+    if (recordingMode !== 'off' && !exampleApp.isRecordingAvailable()) {
+      return res.status(503).json({ success: false, message: 'Recording is not available on this server.' });
+    }
+    try {
+      const saved = exampleApp.setRecordingModeForUser(userId, recordingMode);
+      res.json({ success: true, message: 'Recording settings updated.', recordingMode: saved });
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message || 'Failed to update recording settings.' });
+    }
+  });
+
+  // API endpoint to list the recordings of the authenticated user
+  app.get('/api/recordings', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const recordings = exampleApp.getRecordingsForUser(userId);
+    const totalBytes = recordings.reduce((sum, recording) => sum + recording.sizeBytes, 0);
+    res.json({ success: true, recordings: recordings, usage: { count: recordings.length, totalBytes: totalBytes } });
+  });
+
+  // API endpoint to download a recording as one MPEG-TS file; a recording in progress is sent as far as it has been written
+  app.get('/api/recordings/:recordingId/download', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    const files = exampleApp.getRecordingFilesForUser(userId, req.params.recordingId as string);
+    if (!files) {
+      return res.status(404).json({ success: false, message: 'Recording not found.' });
+    }
+
+    const { recording, segmentPaths } = files;
+    res.set('Content-Type', 'video/mp2t');
+    res.set('Content-Disposition', `attachment; filename="recording-${recording.startedAt.replace(/[:.]/g, '-')}.ts"`);
+    if (recording.status === 'complete') {
+      res.set('Content-Length', String(recording.sizeBytes));
+    }
+    // MPEG-TS segments play back as one file when sent back to back
+    const sendSegment = (index: number) => {
+      if (index >= segmentPaths.length) {
+        return res.end();
+      }
+      const segment = fs.createReadStream(segmentPaths[index]);
+      segment.on('error', (error) => {
+        logger.error('Failed to send recording segment', { userId, recordingId: recording.id, error });
+        res.destroy(error);
+      });
+      segment.on('end', () => sendSegment(index + 1));
+      segment.pipe(res, { end: false });
+    };
+    sendSegment(0);
+  });
+
+  // API endpoint to delete a finished recording and its files
+  app.delete('/api/recordings/:recordingId', (req: AuthenticatedRequest, res: any) => {
+    const userId = req.authUserId;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated.' });
+    }
+    try {
+      const recording = exampleApp.deleteRecordingForUser(userId, req.params.recordingId as string);
+      if (!recording) {
+        return res.status(404).json({ success: false, message: 'Recording not found.' });
+      }
+      res.json({ success: true, message: 'Recording deleted.', recording: recording });
+    } catch (error: any) {
+      if (error instanceof RecordingError) {
+        return res.status(409).json({ success: false, message: error.message });
+      }
+      res.status(500).json({ success: false, message: error.message || 'Failed to delete recording.' });
+    }
+  });
+
   // API endpoint to start the stream for the authenticated user
   app.post('/api/start-stream', async (req: AuthenticatedRequest, res: any) => {
     const userId = req.authUserId;
     if (!userId) {
       return res.status(401).json({ success: false, message: 'User not authenticated. Cannot start stream.' });
     }
-    const { rtmpUrl } = req.body; // Optionally allow passing a URL to start with for this user
+    // Optionally allow passing a URL or saved destination and an encoding profile to start with for this user
+    const { rtmpUrl, destinationId, encodingProfileId } = req.body;
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
     try {
-      await exampleApp.startStreamForUser(userId, rtmpUrl);
+      await exampleApp.startStreamForUser(userId, { rtmpUrl, destinationId, encodingProfileId, sessionId });
       res.json({ success: true, message: 'Stream start requested for user.' });
     } catch (error: any) {
+      if (error instanceof InvalidEncodingProfileError || error instanceof RtmpUrlValidationError) {
+        return res.status(400).json({ success: false, message: error.message, errors: error.errors });
+      }
+      if (error instanceof DestinationNotFoundError) {
+        return res.status(404).json({ success: false, message: 'Destination not found.' });
+      }
+      if (error instanceof StreamStateError) {
+        return res.status(409).json({ success: false, message: error.message, streamState: exampleApp.getStreamPhasesForUser(userId, sessionId) });
+      }
       res.status(500).json({ success: false, message: error.message || 'Failed to start stream for user.' });
     }
   });
@@ -126,10 +876,17 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
     if (!userId) {
       return res.status(401).json({ success: false, message: 'User not authenticated. Cannot stop stream.' });
     }
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
     try {
-      await exampleApp.stopStreamForUser(userId);
+      await exampleApp.stopStreamForUser(userId, sessionId);
       res.json({ success: true, message: 'Stream stop requested for user.' });
     } catch (error: any) {
+      if (error instanceof StreamStateError) {
+        return res.status(409).json({ success: false, message: error.message, streamState: exampleApp.getStreamPhasesForUser(userId, sessionId) });
+      }
       res.status(500).json({ success: false, message: error.message || 'Failed to stop stream for user.' });
     }
   });
@@ -140,14 +897,21 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
     if (!userId) {
       return res.status(401).json({ success: false, message: 'User not authenticated. Cannot start managed stream.' });
     }
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
     try {
-      const urls = await exampleApp.startManagedStreamForUser(userId);
+      const urls = await exampleApp.startManagedStreamForUser(userId, 'webview', sessionId);
       res.json({ 
         success: true, 
         message: 'Managed stream start requested for user.',
         urls: urls 
       });
     } catch (error: any) {
+      if (error instanceof StreamStateError) {
+        return res.status(409).json({ success: false, message: error.message, streamState: exampleApp.getStreamPhasesForUser(userId, sessionId) });
+      }
       res.status(500).json({ success: false, message: error.message || 'Failed to start managed stream for user.' });
     }
   });
@@ -158,10 +922,17 @@ export function setupExpressRoutes(serverInstance: AppServer): void {
     if (!userId) {
       return res.status(401).json({ success: false, message: 'User not authenticated. Cannot stop managed stream.' });
     }
+    const sessionId = requestedSessionId(req);
+    if (sessionId && !exampleApp.hasActiveSession(userId, sessionId)) {
+      return res.status(404).json({ success: false, message: 'Session not found.' });
+    }
     try {
-      await exampleApp.stopManagedStreamForUser(userId);
+      await exampleApp.stopManagedStreamForUser(userId, sessionId);
       res.json({ success: true, message: 'Managed stream stop requested for user.' });
     } catch (error: any) {
+      if (error instanceof StreamStateError) {
+        return res.status(409).json({ success: false, message: error.message, streamState: exampleApp.getStreamPhasesForUser(userId, sessionId) });
+      }
       res.status(500).json({ success: false, message: error.message || 'Failed to stop managed stream for user.' });
     }
   });
@@ -0,0 +1,164 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog } from '../src/audit-log';
+import { TEST_ADMIN_TOKEN, TestApp, createTestApp, newUserId } from './support/test-app';
+
+const METRICS_TOKEN = 'test-metrics-token';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp({ metricsToken: METRICS_TOKEN });
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+function asAdmin(operator: string = 'alice'): Record<string, string> {
+  return { Authorization: `Bearer ${TEST_ADMIN_TOKEN}`, 'X-Operator-Name': operator };
+}
+
+describe('admin API', () => {
+  test('requires the admin token', async () => {
+    expect((await t.request('GET', '/admin/api/sessions')).status).toBe(401);
+    expect((await t.request('GET', '/admin/api/sessions', { headers: { Authorization: 'Bearer wrong-token' } })).status).toBe(401);
+    // A signed-in user is not an operator
+    expect((await t.request('GET', '/admin/api/audit', { userId: newUserId() })).status).toBe(401);
+  });
+
+  test('lists sessions without stream keys', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: { rtmpUrl: 'rtmp://live.example.com/app/secret-key' } });
+    session.emitStreamStatus('active');
+
+    const response = await t.request('GET', '/admin/api/sessions', { headers: asAdmin() });
+    expect(response.status).toBe(200);
+    const summary = response.body.sessions.find((s: any) => s.userId === userId);
+    expect(summary).toMatchObject({ streamMode: 'unmanaged', unmanagedStatus: 'active', destinationHost: 'live.example.com' });
+    expect(JSON.stringify(response.body)).not.toContain('secret-key');
+  });
+
+  test('force-stops a stream and records it in the audit trail', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+
+    const badMode = await t.request('POST', `/admin/api/sessions/${encodeURIComponent(userId)}/stop`, { headers: asAdmin(), body: { mode: 'both' } });
+    expect(badMode.status).toBe(400);
+
+    const stopped = await t.request('POST', `/admin/api/sessions/${encodeURIComponent(userId)}/stop`, { headers: asAdmin('bob'), body: { mode: 'unmanaged' } });
+    expect(stopped.status).toBe(200);
+    expect(stopped.body.audit).toMatchObject({ operator: 'bob', action: 'force-stop-unmanaged-stream', targetUserId: userId, success: true });
+    expect(session.callsTo('stopStream')).toHaveLength(1);
+    expect(session.textWalls.at(-1)).toContain('stopped by an operator');
+
+    const audit = await t.request('GET', '/admin/api/audit?limit=1', { headers: asAdmin() });
+    expect(audit.body.entries).toEqual([stopped.body.audit]);
+  });
+
+  test('cannot force-stop a user or session that is not connected', async () => {
+    const userId = newUserId();
+    const stopUrl = `/admin/api/sessions/${encodeURIComponent(userId)}/stop`;
+    expect((await t.request('POST', stopUrl, { headers: asAdmin(), body: { mode: 'managed' } })).status).toBe(404);
+
+    await t.connect(userId);
+    expect((await t.request('POST', stopUrl, { headers: asAdmin(), body: { mode: 'managed', sessionId: 'no-such-session' } })).status).toBe(404);
+  });
+
+  test('an audit log with a partial line keeps its other entries', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-audit-'));
+    try {
+      const filePath = path.join(dir, 'admin-audit.jsonl');
+      new AuditLog(filePath).record({ operator: 'alice', action: 'force-stop', targetUserId: 'user-a', success: true });
+      fs.appendFileSync(filePath, '{"at":"2026-');
+
+      const log = new AuditLog(filePath);
+      expect(log.list().map(entry => entry.targetUserId)).toEqual(['user-a']);
+      log.record({ operator: 'bob', action: 'force-stop', targetUserId: 'user-b', success: true });
+      expect(new AuditLog(filePath).list().map(entry => entry.targetUserId)).toEqual(['user-b', 'user-a']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('records failed force-stops', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    session.failNext('stopStream', new Error('glasses busy'));
+
+    const response = await t.request('POST', `/admin/api/sessions/${encodeURIComponent(userId)}/stop`, { headers: asAdmin(), body: { mode: 'unmanaged' } });
+    expect(response.status).toBe(500);
+    const audit = await t.request('GET', '/admin/api/audit?limit=1', { headers: asAdmin() });
+    expect(audit.body.entries[0]).toMatchObject({ targetUserId: userId, success: false, error: 'glasses busy' });
+  });
+
+  test('manages operator webhooks', async () => {
+    const invalid = await t.request('POST', '/admin/api/webhooks', { headers: asAdmin(), body: { url: 'not a url' } });
+    expect(invalid.status).toBe(400);
+
+    const created = await t.request('POST', '/admin/api/webhooks', { headers: asAdmin(), body: { url: 'https://ops.example.com/hook' } });
+    expect(created.status).toBe(200);
+    const { id } = created.body.webhook;
+
+    const list = await t.request('GET', '/admin/api/webhooks', { headers: asAdmin() });
+    expect(list.body.webhooks.map((w: any) => w.id)).toContain(id);
+    // Operator webhooks are not visible to users
+    expect((await t.request('GET', '/api/webhooks', { userId: newUserId() })).body.webhooks).toEqual([]);
+
+    expect((await t.request('DELETE', `/admin/api/webhooks/${id}`, { headers: asAdmin() })).status).toBe(200);
+    expect((await t.request('DELETE', `/admin/api/webhooks/${id}`, { headers: asAdmin() })).status).toBe(404);
+    expect((await t.request('POST', `/admin/api/webhooks/${id}/test`, { headers: asAdmin(), body: {} })).status).toBe(404);
+  });
+});
+
+describe('admin API without a token configured', () => {
+  test('is disabled', async () => {
+    const disabled = await createTestApp({ adminToken: null });
+    try {
+      const response = await disabled.request('GET', '/admin/api/sessions', { headers: asAdmin() });
+      expect(response.status).toBe(503);
+    } finally {
+      await disabled.close();
+    }
+  });
+});
+
+describe('/metrics', () => {
+  test('requires the metrics token', async () => {
+    expect((await t.request('GET', '/metrics')).status).toBe(401);
+    expect((await t.request('GET', '/metrics', { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+  });
+
+  test('counts stream requests and reports stream state', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    // Fails, the user has no session
+    await t.request('POST', '/api/start-stream', { userId: newUserId(), body: {} });
+
+    const response = await t.request('GET', '/metrics', { headers: { Authorization: `Bearer ${METRICS_TOKEN}` } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    const text: string = response.body;
+    expect(text).toMatch(/rtmp_stream_requests_total\{route="\/api\/start-stream",outcome="success"\} \d+/);
+    expect(text).toMatch(/rtmp_stream_requests_total\{route="\/api\/start-stream",outcome="failure"\} \d+/);
+    expect(text).toMatch(/rtmp_streams\{mode="unmanaged",status="active"\} [1-9]/);
+    expect(text).toContain('rtmp_stream_start_latency_seconds_count{mode="unmanaged"}');
+  });
+});
+
+describe('/healthz', () => {
+  test('is unavailable until the server has started', async () => {
+    const response = await t.request('GET', '/healthz');
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ status: 'unavailable', checks: { server: 'not listening', settingsStore: 'ok' } });
+  });
+});
@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { TEST_ADMIN_TOKEN, TestApp, createTestApp, newUserId, waitFor } from './support/test-app';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp();
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+function phases(userId: string, sessionId?: string) {
+  return t.app.getStreamPhasesForUser(userId, sessionId);
+}
+
+describe('several devices', () => {
+  test('a second session does not replace the first', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+
+    const sessions = (await t.request('GET', '/api/sessions', { userId })).body.sessions;
+    expect(sessions.map((session: any) => [session.sessionId, session.primary])).toEqual([
+      [second.sessionId, true],
+      [first.sessionId, false],
+    ]);
+    expect(t.app.getActiveSessionSummaries().filter(summary => summary.userId === userId)).toHaveLength(2);
+    expect(first.handlerCount('streamStatus')).toBe(1);
+    expect(second.handlerCount('streamStatus')).toBe(1);
+  });
+
+  test('requests target the most recent session unless a session is given', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(second.callsTo('startStream')).toHaveLength(1);
+    expect(first.callsTo('startStream')).toHaveLength(0);
+
+    const started = await t.request('POST', '/api/start-stream', { userId, body: { sessionId: first.sessionId } });
+    expect(started.status).toBe(200);
+    expect(first.callsTo('startStream')).toHaveLength(1);
+    first.emitStreamStatus('active');
+
+    expect((await t.request('GET', `/api/stream-info?sessionId=${first.sessionId}`, { userId })).body).toMatchObject({
+      sessionId: first.sessionId,
+      streamState: { unmanaged: 'live' },
+    });
+    expect((await t.request('GET', '/api/stream-info', { userId })).body).toMatchObject({
+      sessionId: second.sessionId,
+      streamState: { unmanaged: 'starting' },
+    });
+
+    await t.request('POST', '/api/stop-stream', { userId, body: { sessionId: first.sessionId } });
+    expect(first.callsTo('stopStream')).toHaveLength(1);
+    expect(second.callsTo('stopStream')).toHaveLength(0);
+  });
+
+  test('an unknown or another user\'s session is not found', async () => {
+    const userId = newUserId();
+    await t.connect(userId);
+    const other = await t.connect(newUserId());
+
+    for (const sessionId of ['no-such-session', other.sessionId]) {
+      expect((await t.request('GET', `/api/stream-info?sessionId=${sessionId}`, { userId })).status).toBe(404);
+      expect((await t.request('GET', `/api/stream-stats?sessionId=${sessionId}`, { userId })).status).toBe(404);
+      expect((await t.request('POST', '/api/start-stream', { userId, body: { sessionId } })).status).toBe(404);
+      expect((await t.request('POST', '/api/stop-managed-stream', { userId, body: { sessionId } })).status).toBe(404);
+    }
+    expect(other.callsTo('startStream')).toHaveLength(0);
+  });
+
+  test('each session keeps its own history entry', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: { sessionId: first.sessionId } });
+    first.emitStreamStatus('active');
+    await t.request('POST', '/api/start-stream', { userId, body: { sessionId: second.sessionId } });
+    second.emitStreamStatus('active');
+
+    first.emitDisconnected('glasses off');
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+    second.emitStreamStatus('stopped');
+
+    const entries = (await t.request('GET', '/api/stream-history', { userId })).body.entries;
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry: any) => entry.sessionId === first.sessionId)).toMatchObject({ finalStatus: 'disconnected' });
+    expect(entries.find((entry: any) => entry.sessionId === second.sessionId)).toMatchObject({ finalStatus: 'stopped' });
+  });
+});
+
+describe('disconnects', () => {
+  test('one device disconnecting leaves the other connected', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    second.emitStreamStatus('active');
+
+    first.emitDisconnected('glasses off');
+    expect(t.app.hasActiveSession(userId, first.sessionId)).toBe(false);
+    expect(phases(userId)?.unmanaged).toBe('live');
+    expect(t.app.getSessionsForUser(userId).map(session => session.sessionId)).toEqual([second.sessionId]);
+    expect(t.app.getActiveSessionSummaries().filter(summary => summary.userId === userId)).toHaveLength(1);
+
+    // Only the disconnected session's handlers are released
+    expect(first.handlerCount('streamStatus')).toBe(0);
+    expect(first.handlerCount('disconnected')).toBe(0);
+    expect(second.handlerCount('streamStatus')).toBe(1);
+
+    // Late updates from the old session change nothing
+    first.emitStreamStatus('error', { errorDetails: 'stale' });
+    expect(phases(userId)?.unmanaged).toBe('live');
+  });
+
+  test('the most recent device disconnecting makes the earlier one primary', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+
+    second.emitDisconnected();
+    expect(t.app.getPrimarySessionIdForUser(userId)).toBe(first.sessionId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(first.callsTo('startStream')).toHaveLength(1);
+  });
+
+  test('a disconnect while a start is in flight fails the start', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    const release = session.holdNext('startStream');
+
+    const pending = t.request('POST', '/api/start-stream', { userId, body: {} });
+    await waitFor(() => session.callsTo('startStream').length === 1);
+    session.emitDisconnected('glasses off');
+    release();
+
+    const response = await pending;
+    expect(response.status).toBe(500);
+    expect(response.body.message).toContain('disconnected');
+    expect(phases(userId)).toBeNull();
+    const history = (await t.request('GET', '/api/stream-history', { userId })).body;
+    expect(history.entries[0]).toMatchObject({ sessionId: session.sessionId, finalStatus: 'disconnected' });
+  });
+
+  test('a disconnect while a managed start is in flight leaves the other session alone', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+    const release = first.holdNext('startManagedStream');
+
+    const pending = t.request('POST', '/api/start-managed-stream', { userId, body: { sessionId: first.sessionId } });
+    await waitFor(() => first.callsTo('startManagedStream').length === 1);
+    first.emitDisconnected();
+    release();
+
+    expect((await pending).status).toBe(500);
+    expect(phases(userId, second.sessionId)).toMatchObject({ managed: 'idle', unmanaged: 'idle' });
+    expect(t.app.getManagedStreamStatusForUser(userId)).toBeNull();
+  });
+
+  test('reconnecting with the same session ID replaces its handlers', async () => {
+    const userId = newUserId();
+    const stale = await t.connect(userId);
+    const current = await t.connect(userId, stale.sessionId);
+
+    expect(stale.handlerCount('streamStatus')).toBe(0);
+    expect(current.handlerCount('streamStatus')).toBe(1);
+    expect(t.app.getSessionsForUser(userId)).toHaveLength(1);
+
+    // The old connection closing does not end the new one
+    stale.emitDisconnected();
+    expect(t.app.hasActiveSession(userId, stale.sessionId)).toBe(true);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(current.callsTo('startStream')).toHaveLength(1);
+    expect(stale.callsTo('startStream')).toHaveLength(0);
+  });
+});
+
+describe('admin', () => {
+  test('lists every session and force-stops one by session ID', async () => {
+    const userId = newUserId();
+    const first = await t.connect(userId);
+    const second = await t.connect(userId);
+    for (const session of [first, second]) {
+      await t.request('POST', '/api/start-stream', { userId, body: { sessionId: session.sessionId } });
+      session.emitStreamStatus('active');
+    }
+    const headers = { Authorization: `Bearer ${TEST_ADMIN_TOKEN}`, 'X-Operator-Name': 'alice' };
+
+    const listed = (await t.request('GET', '/admin/api/sessions', { headers })).body.sessions;
+    expect(listed.filter((summary: any) => summary.userId === userId).map((summary: any) => summary.sessionId).sort())
+      .toEqual([first.sessionId, second.sessionId].sort());
+
+    const stopUrl = `/admin/api/sessions/${encodeURIComponent(userId)}/stop`;
+    expect((await t.request('POST', stopUrl, { headers, body: { mode: 'unmanaged', sessionId: 42 } })).status).toBe(400);
+    const stopped = await t.request('POST', stopUrl, { headers, body: { mode: 'unmanaged', sessionId: first.sessionId } });
+    expect(stopped.status).toBe(200);
+    expect(stopped.body.audit).toMatchObject({ success: true, details: { sessionId: first.sessionId } });
+    expect(first.callsTo('stopStream')).toHaveLength(1);
+    expect(second.callsTo('stopStream')).toHaveLength(0);
+  });
+});
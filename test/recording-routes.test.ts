@@ -0,0 +1,263 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RecordingError, RecordingStore } from '../src/recordings';
+import { FakeTpaSession } from './support/fake-session';
+import { TestApp, createTestApp, newUserId, waitFor } from './support/test-app';
+
+const DESTINATION = 'rtmp://live.example.com/app/secret-key';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp();
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+async function connectRecording(userId: string, recordingMode: string): Promise<FakeTpaSession> {
+  await t.request('POST', '/api/rtmp-url', { userId, body: { rtmpUrl: DESTINATION } });
+  await t.request('POST', '/api/recording-settings', { userId, body: { recordingMode } });
+  return t.connect(userId);
+}
+
+async function listRecordings(userId: string): Promise<any[]> {
+  return (await t.request('GET', '/api/recordings', { userId })).body.recordings;
+}
+
+async function stopStream(userId: string, session: FakeTpaSession): Promise<void> {
+  await t.request('POST', '/api/stop-stream', { userId, body: {} });
+  session.emitStreamStatus('stopped');
+  await waitFor(() => t.app.getRecordingsForUser(userId).every(recording => recording.status === 'complete'));
+}
+
+describe('recording routes', () => {
+  test('require sign-in', async () => {
+    expect((await t.request('GET', '/api/recording-settings')).status).toBe(401);
+    expect((await t.request('POST', '/api/recording-settings', { body: { recordingMode: 'record' } })).status).toBe(401);
+    expect((await t.request('GET', '/api/recordings')).status).toBe(401);
+    expect((await t.request('GET', '/api/recordings/some-id/download')).status).toBe(401);
+    expect((await t.request('DELETE', '/api/recordings/some-id')).status).toBe(401);
+  });
+
+  test('save and validate the recording mode', async () => {
+    const userId = newUserId();
+    const initial = (await t.request('GET', '/api/recording-settings', { userId })).body;
+    expect(initial).toMatchObject({ success: true, available: true, recordingMode: 'off' });
+    expect(initial.retention).toMatchObject({ maxRecordingsPerUser: 20 });
+
+    expect((await t.request('POST', '/api/recording-settings', { userId, body: { recordingMode: 'always' } })).status).toBe(400);
+    const saved = await t.request('POST', '/api/recording-settings', { userId, body: { recordingMode: 'record' } });
+    expect(saved.status).toBe(200);
+    expect((await t.request('GET', '/api/recording-settings', { userId })).body.recordingMode).toBe('record');
+  });
+
+  test('recording can only be turned off when no relay is configured', async () => {
+    const noRelay = await createTestApp({}, { recordingRelay: null });
+    try {
+      const userId = newUserId();
+      expect((await noRelay.request('GET', '/api/recording-settings', { userId })).body.available).toBe(false);
+      expect((await noRelay.request('POST', '/api/recording-settings', { userId, body: { recordingMode: 'record' } })).status).toBe(503);
+      expect((await noRelay.request('POST', '/api/recording-settings', { userId, body: { recordingMode: 'off' } })).status).toBe(200);
+    } finally {
+      await noRelay.close();
+    }
+  });
+});
+
+describe('recording streams', () => {
+  test('streams go straight to the destination when recording is off', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'off');
+    const connections = t.relay.connections.length;
+
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(session.callsTo('startStream')[0].args[0].rtmpUrl).toBe(DESTINATION);
+    expect(t.relay.connections).toHaveLength(connections);
+    expect(await listRecordings(userId)).toEqual([]);
+  });
+
+  test('records and forwards a stream, then serves and deletes the recording', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record-and-forward');
+
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    const connection = t.relay.latest();
+    expect(session.callsTo('startStream')[0].args[0].rtmpUrl).toBe(connection.ingestUrl);
+    expect(connection.options).toMatchObject({ forwardUrl: DESTINATION, firstSegmentNumber: 0 });
+    session.emitStreamStatus('active');
+
+    const first = connection.writeSegment(1000);
+    const [recording] = await listRecordings(userId);
+    expect(recording).toMatchObject({ status: 'recording', sizeBytes: 1000, forwardedTo: expect.not.stringContaining('secret-key') });
+    expect(recording.ownerUserId).toBeUndefined();
+
+    // Downloadable while still recording, but not deletable
+    const partial = await t.request('GET', `/api/recordings/${recording.id}/download`, { userId });
+    expect(partial.status).toBe(200);
+    expect(partial.headers.get('content-type')).toContain('video/mp2t');
+    expect(partial.body).toBe(first.toString());
+    const inProgress = await t.request('DELETE', `/api/recordings/${recording.id}`, { userId });
+    expect(inProgress.status).toBe(409);
+    expect(inProgress.body.message).toContain('still in progress');
+
+    const second = connection.writeSegment(500);
+    await stopStream(userId, session);
+    expect(connection.stopped).toBe(true);
+    const listed = (await t.request('GET', '/api/recordings', { userId })).body;
+    expect(listed.recordings[0]).toMatchObject({ id: recording.id, status: 'complete', sizeBytes: 1500 });
+    expect(listed.recordings[0].endedAt).not.toBeNull();
+    expect(listed.usage).toEqual({ count: 1, totalBytes: 1500 });
+
+    const download = await t.request('GET', `/api/recordings/${recording.id}/download`, { userId });
+    expect(download.headers.get('content-length')).toBe('1500');
+    expect(download.headers.get('content-disposition')).toContain('attachment');
+    expect(download.body).toBe(Buffer.concat([first, second]).toString());
+
+    // Other users cannot see or delete it
+    const otherUser = newUserId();
+    expect((await t.request('GET', `/api/recordings/${recording.id}/download`, { userId: otherUser })).status).toBe(404);
+    expect((await t.request('DELETE', `/api/recordings/${recording.id}`, { userId: otherUser })).status).toBe(404);
+
+    expect((await t.request('DELETE', `/api/recordings/${recording.id}`, { userId })).status).toBe(200);
+    expect(fs.existsSync(path.join(t.recordingsDir, recording.id))).toBe(false);
+    expect((await t.request('DELETE', `/api/recordings/${recording.id}`, { userId })).status).toBe(404);
+    expect(await listRecordings(userId)).toEqual([]);
+  });
+
+  test('record-only mode does not forward', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record');
+
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(t.relay.latest().options.forwardUrl).toBeNull();
+    t.relay.latest().writeSegment(100);
+    session.emitStreamStatus('active');
+    await stopStream(userId, session);
+    expect((await listRecordings(userId))[0]).toMatchObject({ forwardedTo: null, status: 'complete' });
+  });
+
+  test('a retry continues the same recording after the last segment', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/retry-policy', { userId, body: { initialDelayMs: 500, jitterRatio: 0, maxAttempts: 3 } });
+    const session = await connectRecording(userId, 'record');
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    const firstConnection = t.relay.latest();
+    firstConnection.writeSegment(100);
+    firstConnection.writeSegment(100);
+
+    session.emitStreamStatus('error', { errorDetails: 'network unreachable' });
+    await waitFor(() => session.callsTo('startStream').length === 2);
+    const retryConnection = t.relay.latest();
+    expect(retryConnection).not.toBe(firstConnection);
+    expect(firstConnection.stopped).toBe(true);
+    expect(retryConnection.options).toMatchObject({ outputDir: firstConnection.options.outputDir, firstSegmentNumber: 2 });
+    expect(session.callsTo('startStream')[1].args[0].rtmpUrl).toBe(retryConnection.ingestUrl);
+
+    session.emitStreamStatus('active');
+    retryConnection.writeSegment(100);
+    await stopStream(userId, session);
+    const recordings = await listRecordings(userId);
+    expect(recordings).toHaveLength(1);
+    expect(recordings[0].segments.map((segment: any) => segment.fileName)).toEqual(['segment-00000.ts', 'segment-00001.ts', 'segment-00002.ts']);
+  });
+
+  test('a stream that sent no data leaves no recording', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record');
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(await listRecordings(userId)).toHaveLength(1);
+
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+    session.emitStreamStatus('stopped');
+    await waitFor(() => t.app.getRecordingsForUser(userId).length === 0);
+  });
+
+  test('fails the start when the relay cannot be opened', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record');
+    t.relay.failNext(new RecordingError('All 10 recording relay ports are in use'));
+
+    const response = await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(response.status).toBe(500);
+    expect(session.callsTo('startStream')).toHaveLength(0);
+    await waitFor(() => t.app.getRecordingsForUser(userId).length === 0);
+  });
+
+  test('a disconnect finishes the recording', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record');
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    const connection = t.relay.latest();
+    connection.writeSegment(100);
+
+    session.emitDisconnected('glasses off');
+    await waitFor(() => connection.stopped && t.app.getRecordingsForUser(userId)[0]?.status === 'complete');
+  });
+});
+
+describe('recording store', () => {
+  test('a corrupt index is moved aside instead of failing startup', () => {
+    const recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-recordings-'));
+    try {
+      fs.writeFileSync(path.join(recordingsDir, 'recordings.json'), '{"recordings": [');
+      const store = new RecordingStore(recordingsDir);
+      expect(store.listForOwner('user-a')).toEqual([]);
+      expect(fs.readdirSync(recordingsDir).filter(name => name.startsWith('recordings.json.corrupt-'))).toHaveLength(1);
+
+      const recording = store.create('user-a', { forwardedTo: null, encodingProfileId: '720p30' });
+      fs.writeFileSync(path.join(store.getSegmentDir(recording.id), 'segment-00000.ts'), 'data');
+      store.finish(recording.id);
+      expect(new RecordingStore(recordingsDir).listForOwner('user-a')).toHaveLength(1);
+    } finally {
+      fs.rmSync(recordingsDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('recording retention', () => {
+  test('deletes finished recordings past the age limit', async () => {
+    const userId = newUserId();
+    const session = await connectRecording(userId, 'record');
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    t.relay.latest().writeSegment(100);
+    session.emitStreamStatus('active');
+    await stopStream(userId, session);
+
+    t.app.enforceRecordingRetention(Date.now() + 8 * 24 * 60 * 60 * 1000);
+    expect(await listRecordings(userId)).toEqual([]);
+  });
+
+  test('keeps only the newest recordings past the count limit', async () => {
+    const recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-recordings-'));
+    const limited = await createTestApp({}, { recordingStore: new RecordingStore(recordingsDir, { maxRecordingsPerUser: 2 }) });
+    try {
+      const userId = newUserId();
+      await limited.request('POST', '/api/recording-settings', { userId, body: { recordingMode: 'record' } });
+      const session = await limited.connect(userId);
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        await limited.request('POST', '/api/start-stream', { userId, body: {} });
+        session.emitStreamStatus('active');
+        limited.relay.latest().writeSegment(100);
+        ids.push(limited.app.getRecordingsForUser(userId)[0].id);
+        await limited.request('POST', '/api/stop-stream', { userId, body: {} });
+        session.emitStreamStatus('stopped');
+        await waitFor(() => limited.app.getRecordingsForUser(userId)[0].status === 'complete');
+        // Recordings are ordered by start time
+        await Bun.sleep(5);
+      }
+
+      const recordings = (await limited.request('GET', '/api/recordings', { userId })).body.recordings;
+      expect(recordings.map((recording: any) => recording.id)).toEqual([ids[2], ids[1]]);
+    } finally {
+      await limited.close();
+      fs.rmSync(recordingsDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { TestApp, createTestApp, newUserId } from './support/test-app';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp();
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+describe('authentication', () => {
+  const routes: [string, string][] = [
+    ['POST', '/api/rtmp-url'],
+    ['GET', '/api/destinations'],
+    ['POST', '/api/destinations'],
+    ['PUT', '/api/destinations/some-id'],
+    ['POST', '/api/destinations/test'],
+    ['DELETE', '/api/destinations/some-id'],
+    ['POST', '/api/destinations/some-id/activate'],
+    ['GET', '/api/encoding-profiles'],
+    ['POST', '/api/encoding-profile'],
+    ['POST', '/api/encoding-profiles'],
+    ['DELETE', '/api/encoding-profiles/some-id'],
+    ['GET', '/api/auto-start-settings'],
+    ['POST', '/api/auto-start-settings'],
+    ['GET', '/api/glasses-control'],
+    ['POST', '/api/glasses-control'],
+    ['GET', '/api/retry-policy'],
+    ['POST', '/api/retry-policy'],
+    ['GET', '/api/battery-policy'],
+    ['POST', '/api/battery-policy'],
+    ['GET', '/api/stream-schedule'],
+    ['POST', '/api/stream-schedule'],
+    ['DELETE', '/api/stream-schedule/some-id'],
+  ];
+
+  for (const [method, path] of routes) {
+    test(`${method} ${path} requires a signed-in user`, async () => {
+      const response = await t.request(method, path, { body: method === 'GET' || method === 'DELETE' ? undefined : {} });
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+  }
+});
+
+describe('GET /webview', () => {
+  test('renders for signed-in and anonymous users', async () => {
+    const userId = newUserId();
+    const signedIn = await t.request('GET', '/webview', { userId });
+    expect(signedIn.status).toBe(200);
+    expect(signedIn.body).toContain(userId);
+
+    const anonymous = await t.request('GET', '/webview');
+    expect(anonymous.status).toBe(200);
+  });
+});
+
+describe('POST /api/rtmp-url', () => {
+  test('saves a valid URL and masks it in the response', async () => {
+    const userId = newUserId();
+    const response = await t.request('POST', '/api/rtmp-url', { userId, body: { rtmpUrl: 'rtmp://live.example.com/app/secret-key' } });
+    expect(response.status).toBe(200);
+    expect(response.body.newRtmpUrl).not.toContain('secret-key');
+    expect(t.app.getRtmpUrlForUser(userId)).toBe('rtmp://live.example.com/app/secret-key');
+  });
+
+  test('rejects missing and invalid URLs', async () => {
+    const userId = newUserId();
+    expect((await t.request('POST', '/api/rtmp-url', { userId, body: {} })).status).toBe(400);
+    expect((await t.request('POST', '/api/rtmp-url', { userId, body: { rtmpUrl: 42 } })).status).toBe(400);
+    const invalid = await t.request('POST', '/api/rtmp-url', { userId, body: { rtmpUrl: 'ftp://example.com/live' } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe('/api/destinations', () => {
+  test('adds, renames, activates and deletes destinations', async () => {
+    const userId = newUserId();
+    const added = await t.request('POST', '/api/destinations', { userId, body: { name: 'Studio', rtmpUrl: 'rtmp://studio.example.com/live/key-a' } });
+    expect(added.status).toBe(200);
+    const first = added.body.destination;
+    expect(first.rtmpUrl).not.toContain('key-a');
+
+    const second = (await t.request('POST', '/api/destinations', { userId, body: { name: 'Field', rtmpUrl: 'rtmp://field.example.com/live/key-b', makeActive: true } })).body.destination;
+    let list = await t.request('GET', '/api/destinations', { userId });
+    expect(list.body.destinations).toHaveLength(2);
+    expect(list.body.activeDestinationId).toBe(second.id);
+
+    const renamed = await t.request('PUT', `/api/destinations/${first.id}`, { userId, body: { name: 'Main studio' } });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.destination.name).toBe('Main studio');
+
+    const activated = await t.request('POST', `/api/destinations/${first.id}/activate`, { userId, body: {} });
+    expect(activated.status).toBe(200);
+    expect(t.app.getRtmpUrlForUser(userId)).toBe('rtmp://studio.example.com/live/key-a');
+
+    const deleted = await t.request('DELETE', `/api/destinations/${second.id}`, { userId });
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.activeDestinationId).toBe(first.id);
+    list = await t.request('GET', '/api/destinations', { userId });
+    expect(list.body.destinations.map((d: any) => d.id)).toEqual([first.id]);
+  });
+
+  test('validates input and reports unknown destinations', async () => {
+    const userId = newUserId();
+    expect((await t.request('POST', '/api/destinations', { userId, body: { rtmpUrl: 'rtmp://a.example.com/live/k' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/destinations', { userId, body: { name: 'No URL' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/destinations', { userId, body: { name: 'Bad', rtmpUrl: 'https://a.example.com' } })).status).toBe(400);
+    expect((await t.request('PUT', '/api/destinations/missing', { userId, body: { name: 'X' } })).status).toBe(404);
+    expect((await t.request('PUT', '/api/destinations/missing', { userId, body: { name: '' } })).status).toBe(400);
+    expect((await t.request('DELETE', '/api/destinations/missing', { userId })).status).toBe(404);
+    expect((await t.request('POST', '/api/destinations/missing/activate', { userId, body: {} })).status).toBe(404);
+  });
+
+  test('POST /api/destinations/test probes a local ingest', async () => {
+    const userId = newUserId();
+    // Accepts the connection but never answers the RTMP handshake
+    const listener = Bun.listen({ hostname: '127.0.0.1', port: 0, socket: { data() {}, open(socket) { socket.end(); } } });
+    try {
+      const response = await t.request('POST', '/api/destinations/test', { userId, body: { rtmpUrl: `rtmp://127.0.0.1:${listener.port}/live/key` } });
+      expect(response.status).toBe(200);
+      expect(response.body.reachable).toBe(true);
+      expect(response.body.handshake).toBe(false);
+    } finally {
+      listener.stop(true);
+    }
+
+    expect((await t.request('POST', '/api/destinations/test', { userId, body: { rtmpUrl: 7 } })).status).toBe(400);
+    expect((await t.request('POST', '/api/destinations/test', { userId, body: { rtmpUrl: 'http://example.com' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/destinations/test', { userId, body: { destinationId: 'no-such-destination' } })).status).toBe(404);
+  });
+});
+
+describe('encoding profiles', () => {
+  test('lists built-in profiles and selects one', async () => {
+    const userId = newUserId();
+    const list = await t.request('GET', '/api/encoding-profiles', { userId });
+    expect(list.status).toBe(200);
+    expect(list.body.selectedProfileId).toBe('720p30');
+    expect(list.body.profiles.some((p: any) => p.id === 'low-bandwidth-480p')).toBe(true);
+
+    const selected = await t.request('POST', '/api/encoding-profile', { userId, body: { profileId: 'low-bandwidth-480p' } });
+    expect(selected.status).toBe(200);
+    expect(t.app.getEncodingProfileForUser(userId).id).toBe('low-bandwidth-480p');
+
+    expect((await t.request('POST', '/api/encoding-profile', { userId, body: {} })).status).toBe(400);
+    expect((await t.request('POST', '/api/encoding-profile', { userId, body: { profileId: 'nope' } })).status).toBe(400);
+  });
+
+  test('saves and deletes a custom profile', async () => {
+    const userId = newUserId();
+    const saved = await t.request('POST', '/api/encoding-profiles', {
+      userId,
+      body: { name: 'Night', video: { width: 1280, height: 720, bitrate: 1500000, frameRate: 25 } },
+    });
+    expect(saved.status).toBe(200);
+    expect(saved.body.profile.id).toBe('custom-night');
+    expect(saved.body.profile.audio.sampleRate).toBe(44100);
+
+    const invalid = await t.request('POST', '/api/encoding-profiles', { userId, body: { name: 'Huge', video: { width: 8000, height: 720, bitrate: 1, frameRate: 25 } } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.length).toBeGreaterThan(0);
+
+    expect((await t.request('DELETE', '/api/encoding-profiles/custom-night', { userId })).status).toBe(200);
+    expect((await t.request('DELETE', '/api/encoding-profiles/custom-night', { userId })).status).toBe(404);
+  });
+});
+
+describe('/api/auto-start-settings', () => {
+  test('updates the policy and confirms the current destination', async () => {
+    const userId = newUserId();
+    const initial = await t.request('GET', '/api/auto-start-settings', { userId });
+    expect(initial.body).toMatchObject({ success: true, autoStartPolicy: 'never', captureInitialPhoto: false, destinationConfirmed: false });
+
+    const updated = await t.request('POST', '/api/auto-start-settings', { userId, body: { autoStartPolicy: 'confirmed', confirmDestination: true } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.autoStartPolicy).toBe('confirmed');
+    expect(updated.body.destinationConfirmed).toBe(true);
+  });
+
+  test('rejects invalid values', async () => {
+    const userId = newUserId();
+    expect((await t.request('POST', '/api/auto-start-settings', { userId, body: { autoStartPolicy: 'sometimes' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/auto-start-settings', { userId, body: { captureInitialPhoto: 'yes' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/auto-start-settings', { userId, body: { confirmDestination: 1 } })).status).toBe(400);
+  });
+});
+
+describe('/api/glasses-control', () => {
+  test('turns individual controls on and off', async () => {
+    const userId = newUserId();
+    const initial = await t.request('GET', '/api/glasses-control', { userId });
+    expect(initial.body.glassesControl).toEqual({ voice: true, button: true, headGesture: false });
+
+    const updated = await t.request('POST', '/api/glasses-control', { userId, body: { headGesture: true, voice: false } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.glassesControl).toEqual({ voice: false, button: true, headGesture: true });
+
+    expect((await t.request('POST', '/api/glasses-control', { userId, body: { button: 'off' } })).status).toBe(400);
+  });
+});
+
+describe('/api/retry-policy', () => {
+  test('merges changes into the policy', async () => {
+    const userId = newUserId();
+    const initial = await t.request('GET', '/api/retry-policy', { userId });
+    expect(initial.body.retryPolicy.maxAttempts).toBe(5);
+
+    const updated = await t.request('POST', '/api/retry-policy', { userId, body: { maxAttempts: 2, initialDelayMs: 500 } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.retryPolicy).toMatchObject({ maxAttempts: 2, initialDelayMs: 500, maxDelayMs: 60000 });
+
+    const invalid = await t.request('POST', '/api/retry-policy', { userId, body: { maxAttempts: 0 } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe('/api/battery-policy', () => {
+  test('merges changes and reports the latest battery level', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    session.emitBattery(55);
+
+    const initial = await t.request('GET', '/api/battery-policy', { userId });
+    expect(initial.body.battery.level).toBe(55);
+
+    const updated = await t.request('POST', '/api/battery-policy', { userId, body: { warnLevel: 30, criticalLevel: 5, stepDownProfileId: 'low-bandwidth-480p' } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.batteryPolicy).toMatchObject({ warnLevel: 30, criticalLevel: 5, stepDownProfileId: 'low-bandwidth-480p' });
+
+    expect((await t.request('POST', '/api/battery-policy', { userId, body: { warnLevel: 10, criticalLevel: 20 } })).status).toBe(400);
+    expect((await t.request('POST', '/api/battery-policy', { userId, body: { warnLevel: 101 } })).status).toBe(400);
+  });
+});
+
+describe('/api/stream-schedule', () => {
+  test('schedules, lists and cancels a window', async () => {
+    const userId = newUserId();
+    const startAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const created = await t.request('POST', '/api/stream-schedule', { userId, body: { name: 'Talk', mode: 'managed', startAt, maxDurationMinutes: 30 } });
+    expect(created.status).toBe(200);
+    expect(created.body.window.state).toBe('pending');
+
+    const list = await t.request('GET', '/api/stream-schedule', { userId });
+    expect(list.body.windows.map((w: any) => w.id)).toEqual([created.body.window.id]);
+
+    const cancelled = await t.request('DELETE', `/api/stream-schedule/${created.body.window.id}`, { userId });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.window.state).toBe('cancelled');
+    expect((await t.request('DELETE', '/api/stream-schedule/missing', { userId })).status).toBe(404);
+  });
+
+  test('rejects invalid windows', async () => {
+    const userId = newUserId();
+    const response = await t.request('POST', '/api/stream-schedule', { userId, body: { mode: 'sideways', startAt: 'tomorrow' } });
+    expect(response.status).toBe(400);
+    expect(response.body.errors.length).toBeGreaterThan(1);
+
+    const unknownDestination = await t.request('POST', '/api/stream-schedule', {
+      userId,
+      body: { mode: 'unmanaged', startAt: new Date(Date.now() + 60000).toISOString(), maxDurationMinutes: 5, destinationId: 'missing' },
+    });
+    expect(unknownDestination.status).toBe(400);
+  });
+
+  test('the scheduler starts and ends a due window', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    const startAt = new Date(Date.now() + 1000).toISOString();
+    const window = (await t.request('POST', '/api/stream-schedule', { userId, body: { mode: 'managed', startAt, maxDurationMinutes: 1 } })).body.window;
+
+    await t.app.runStreamScheduler(Date.now() + 2000);
+    expect(session.callsTo('startManagedStream')).toHaveLength(1);
+    session.emitManagedStreamStatus('active');
+
+    await t.app.runStreamScheduler(Date.now() + 2 * 60 * 1000);
+    expect(session.callsTo('stopManagedStream')).toHaveLength(1);
+    expect(t.app.getStreamWindowsForUser(userId).find(w => w.id === window.id)!.state).not.toBe('pending');
+  });
+});
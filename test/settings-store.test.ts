@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CURRENT_SETTINGS_VERSION, FileSettingsStore, createDefaultSettings } from '../src/settings-store';
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-settings-'));
+  filePath = path.join(dir, 'user-settings.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeSettingsFile(users: Record<string, any>): void {
+  fs.writeFileSync(filePath, JSON.stringify({ version: CURRENT_SETTINGS_VERSION, users }));
+}
+
+describe('FileSettingsStore', () => {
+  test('keeps settings across restarts', () => {
+    new FileSettingsStore(filePath).set('user-a', { ...createDefaultSettings(), recordingMode: 'record' });
+    expect(new FileSettingsStore(filePath).get('user-a')?.recordingMode).toBe('record');
+  });
+
+  test('moves an unreadable file aside and starts empty', () => {
+    fs.writeFileSync(filePath, '{"users": {');
+
+    const store = new FileSettingsStore(filePath);
+    expect(store.listUserIds()).toEqual([]);
+    const movedAside = fs.readdirSync(dir).filter(name => name.startsWith('user-settings.json.corrupt-'));
+    expect(movedAside).toHaveLength(1);
+    expect(fs.readFileSync(path.join(dir, movedAside[0]), 'utf8')).toBe('{"users": {');
+
+    store.set('user-a', createDefaultSettings());
+    expect(new FileSettingsStore(filePath).listUserIds()).toEqual(['user-a']);
+  });
+
+  test('keeps a record it cannot migrate without losing the other users', () => {
+    const newer = { ...createDefaultSettings(), version: CURRENT_SETTINGS_VERSION + 1 };
+    writeSettingsFile({ 'user-a': newer, 'user-b': createDefaultSettings() });
+
+    const store = new FileSettingsStore(filePath);
+    expect(store.listUserIds()).toEqual(['user-b']);
+    expect(store.get('user-a')).toBeUndefined();
+
+    // The record is written back untouched until the user saves new settings
+    store.set('user-b', { ...createDefaultSettings(), recordingMode: 'record' });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).users['user-a']).toEqual(newer);
+    store.set('user-a', createDefaultSettings());
+    expect(new FileSettingsStore(filePath).listUserIds().sort()).toEqual(['user-a', 'user-b']);
+  });
+});
+
+describe('migrations', () => {
+  test('a valid legacy URL becomes the active destination and an invalid one is dropped', () => {
+    writeSettingsFile({
+      'user-a': { rtmpUrl: 'rtmp://live.example.com/app/legacy-key' },
+      'user-b': { rtmpUrl: 'http://example.com/not-rtmp' },
+    });
+
+    const store = new FileSettingsStore(filePath);
+    const valid = store.get('user-a')!;
+    expect(valid.version).toBe(CURRENT_SETTINGS_VERSION);
+    expect(valid.destinations.map(destination => [destination.name, destination.rtmpUrl])).toEqual([['Default', 'rtmp://live.example.com/app/legacy-key']]);
+    expect(valid.activeDestinationId).toBe(valid.destinations[0].id);
+
+    const invalid = store.get('user-b')!;
+    expect(invalid.destinations).toEqual([]);
+    expect(invalid.activeDestinationId).toBeNull();
+  });
+});
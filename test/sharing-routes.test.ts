@@ -0,0 +1,259 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ShareLinkStore } from '../src/share-links';
+import { WEBHOOK_RETRY_POLICY, WebhookStore } from '../src/webhooks';
+import { TestApp, createTestApp, newUserId, waitFor } from './support/test-app';
+
+interface ReceivedWebhook {
+  headers: Headers;
+  body: string;
+}
+
+let t: TestApp;
+let receiver: ReturnType<typeof Bun.serve>;
+let received: ReceivedWebhook[] = [];
+// Status the receiver answers with
+let receiverStatus = 200;
+
+beforeAll(async () => {
+  t = await createTestApp();
+  receiver = Bun.serve({
+    hostname: '127.0.0.1',
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() });
+      return new Response('ok', { status: receiverStatus });
+    },
+  });
+});
+
+afterAll(async () => {
+  receiver.stop(true);
+  await t.close();
+});
+
+describe('authentication', () => {
+  const routes: [string, string][] = [
+    ['GET', '/api/share-links'],
+    ['POST', '/api/share-links'],
+    ['DELETE', '/api/share-links/some-id'],
+    ['GET', '/api/webhooks'],
+    ['POST', '/api/webhooks'],
+    ['PUT', '/api/webhooks/some-id'],
+    ['DELETE', '/api/webhooks/some-id'],
+    ['POST', '/api/webhooks/some-id/test'],
+    ['GET', '/api/webhook-deliveries'],
+  ];
+
+  for (const [method, path] of routes) {
+    test(`${method} ${path} requires a signed-in user`, async () => {
+      const response = await t.request(method, path, { body: method === 'GET' || method === 'DELETE' ? undefined : {} });
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+  }
+});
+
+describe('/api/share-links', () => {
+  test('creates a link that follows the managed stream until revoked', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    const created = await t.request('POST', '/api/share-links', { userId, body: { label: 'Launch', expiresInHours: 2 } });
+    expect(created.status).toBe(200);
+    const link = created.body.link;
+    expect(link.url).toBe(`${t.baseUrl}/share/${link.token}`);
+    expect(link.embedHtml).toContain(`${link.url}/embed`);
+    expect(link).not.toHaveProperty('ownerUserId');
+
+    let status = await t.request('GET', `/share/${link.token}/status`);
+    expect(status.body.stream).toMatchObject({ label: 'Launch', live: false, hlsUrl: null });
+
+    await t.request('POST', '/api/start-managed-stream', { userId, body: {} });
+    session.emitManagedStreamStatus('active');
+    status = await t.request('GET', `/share/${link.token}/status`);
+    expect(status.body.stream.live).toBe(true);
+    expect(status.body.stream.hlsUrl).toContain('.m3u8');
+    expect(JSON.stringify(status.body)).not.toContain(userId);
+
+    const list = await t.request('GET', '/api/share-links', { userId });
+    expect(list.body.links.map((l: any) => l.id)).toEqual([link.id]);
+
+    const revoked = await t.request('DELETE', `/api/share-links/${link.id}`, { userId });
+    expect(revoked.status).toBe(200);
+    expect(revoked.body.link.active).toBe(false);
+    expect((await t.request('GET', `/share/${link.token}/status`)).status).toBe(404);
+    expect((await t.request('DELETE', `/api/share-links/${link.id}`, { userId: newUserId() })).status).toBe(404);
+  });
+
+  test('validates input', async () => {
+    const userId = newUserId();
+    expect((await t.request('POST', '/api/share-links', { userId, body: { label: 5 } })).status).toBe(400);
+    expect((await t.request('POST', '/api/share-links', { userId, body: { expiresInHours: '2' } })).status).toBe(400);
+    expect((await t.request('POST', '/api/share-links', { userId, body: { expiresInHours: 100000 } })).status).toBe(400);
+  });
+  test('a corrupt share links file is moved aside instead of failing startup', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-share-links-'));
+    try {
+      const filePath = path.join(dir, 'share-links.json');
+      fs.writeFileSync(filePath, '{"links": [');
+      const store = new ShareLinkStore(filePath);
+      expect(store.listForOwner('user-a')).toEqual([]);
+      expect(fs.readdirSync(dir).filter(name => name.startsWith('share-links.json.corrupt-'))).toHaveLength(1);
+
+      store.create('user-a', 'Family');
+      expect(new ShareLinkStore(filePath).listForOwner('user-a')).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('/api/webhooks', () => {
+  test('registers a webhook and signs stream lifecycle events', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    received = [];
+
+    const created = await t.request('POST', '/api/webhooks', {
+      userId,
+      body: { url: `http://127.0.0.1:${receiver.port}/hook`, events: ['stream.started', 'stream.active'], description: 'CI' },
+    });
+    expect(created.status).toBe(200);
+    const { id, secret } = created.body.webhook;
+    expect(secret.length).toBeGreaterThanOrEqual(16);
+
+    const list = await t.request('GET', '/api/webhooks', { userId });
+    expect(list.body.webhooks).toHaveLength(1);
+    expect(list.body.webhooks[0]).not.toHaveProperty('secret');
+
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    await waitFor(() => received.length === 2);
+
+    const events = received.map(delivery => delivery.headers.get('x-webhook-event'));
+    expect(events).toEqual(['stream.started', 'stream.active']);
+    for (const delivery of received) {
+      const timestamp = delivery.headers.get('x-webhook-timestamp');
+      const expected = createHmac('sha256', secret).update(`${timestamp}.${delivery.body}`).digest('hex');
+      expect(delivery.headers.get('x-webhook-signature')).toBe(`sha256=${expected}`);
+    }
+    expect(JSON.parse(received[1].body).data.phase).toBe('live');
+
+    await waitFor(() => t.app.getWebhookDeliveries(userId, 10).every(delivery => delivery.status === 'delivered'));
+    const deliveries = await t.request('GET', '/api/webhook-deliveries?limit=10', { userId });
+    expect(deliveries.body.deliveries.map((d: any) => d.webhookId)).toEqual([id, id]);
+  });
+
+  test('disables, tests and deletes a webhook', async () => {
+    const userId = newUserId();
+    const { id } = (await t.request('POST', '/api/webhooks', { userId, body: { url: `http://127.0.0.1:${receiver.port}/hook` } })).body.webhook;
+
+    const disabled = await t.request('PUT', `/api/webhooks/${id}`, { userId, body: { enabled: false } });
+    expect(disabled.status).toBe(200);
+    expect(disabled.body.webhook.enabled).toBe(false);
+    expect((await t.request('PUT', `/api/webhooks/${id}`, { userId, body: { enabled: 'no' } })).status).toBe(400);
+
+    receiverStatus = 200;
+    const tested = await t.request('POST', `/api/webhooks/${id}/test`, { userId, body: {} });
+    expect(tested.status).toBe(200);
+    expect(tested.body.success).toBe(true);
+
+    receiverStatus = 500;
+    const failed = await t.request('POST', `/api/webhooks/${id}/test`, { userId, body: {} });
+    receiverStatus = 200;
+    expect(failed.status).toBe(200);
+    expect(failed.body.success).toBe(false);
+    expect(failed.body.delivery.status).toBe('failed');
+
+    expect((await t.request('DELETE', `/api/webhooks/${id}`, { userId })).status).toBe(200);
+    expect((await t.request('DELETE', `/api/webhooks/${id}`, { userId })).status).toBe(404);
+    expect((await t.request('PUT', `/api/webhooks/${id}`, { userId, body: { enabled: true } })).status).toBe(404);
+    expect((await t.request('POST', `/api/webhooks/${id}/test`, { userId, body: {} })).status).toBe(404);
+  });
+
+  test('users only see their own webhooks', async () => {
+    const owner = newUserId();
+    const other = newUserId();
+    const { id } = (await t.request('POST', '/api/webhooks', { userId: owner, body: { url: 'https://hooks.example.com/a' } })).body.webhook;
+    expect((await t.request('GET', '/api/webhooks', { userId: other })).body.webhooks).toEqual([]);
+    expect((await t.request('DELETE', `/api/webhooks/${id}`, { userId: other })).status).toBe(404);
+  });
+
+  test('rejects invalid webhooks', async () => {
+    const userId = newUserId();
+    const response = await t.request('POST', '/api/webhooks', { userId, body: { url: 'ftp://example.com', events: ['stream.exploded'] } });
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toHaveLength(2);
+  });
+
+  test('retries a failed delivery with backoff', async () => {
+    const retrying = await createTestApp({}, { webhookRetryPolicy: { ...WEBHOOK_RETRY_POLICY, initialDelayMs: 200, jitterRatio: 0, maxAttempts: 3 } });
+    try {
+      const userId = newUserId();
+      const session = await retrying.connect(userId);
+      await retrying.request('POST', '/api/webhooks', { userId, body: { url: `http://127.0.0.1:${receiver.port}/hook`, events: ['stream.started'] } });
+      received = [];
+      receiverStatus = 500;
+
+      await retrying.request('POST', '/api/start-stream', { userId, body: {} });
+      await waitFor(() => retrying.app.getWebhookDeliveries(userId, 10)[0]?.status === 'retrying');
+      receiverStatus = 200;
+      const [pending] = retrying.app.getWebhookDeliveries(userId, 10);
+      expect(received).toHaveLength(1);
+      expect(pending).toMatchObject({ attempts: 1, responseStatus: 500 });
+      expect(pending.nextAttemptAt).not.toBeNull();
+
+      await waitFor(() => retrying.app.getWebhookDeliveries(userId, 10)[0].status === 'delivered');
+      expect(retrying.app.getWebhookDeliveries(userId, 10)[0]).toMatchObject({ attempts: 2, responseStatus: 200, error: null });
+      // Both attempts carry the same payload
+      expect(received.map(delivery => delivery.headers.get('x-webhook-id'))).toEqual([
+        received[0].headers.get('x-webhook-id'),
+        received[0].headers.get('x-webhook-id'),
+      ]);
+      session.emitStreamStatus('active');
+    } finally {
+      await retrying.close();
+    }
+  });
+
+  test('a corrupt webhooks file is moved aside instead of failing startup', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-webhooks-'));
+    try {
+      const filePath = path.join(dir, 'webhooks.json');
+      fs.writeFileSync(filePath, 'not json');
+      const store = new WebhookStore(filePath);
+      expect(store.list(null)).toEqual([]);
+      expect(fs.readdirSync(dir).filter(name => name.startsWith('webhooks.json.corrupt-'))).toHaveLength(1);
+
+      store.create(null, { url: 'https://hooks.example.com/ops' });
+      expect(new WebhookStore(filePath).list(null)).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('does not call user webhooks that resolve to private addresses', async () => {
+    const strict = await createTestApp({ allowPrivateWebhookUrls: false }, {
+      resolveWebhookHost: async hostname => hostname === 'internal.example.com' ? ['10.1.2.3'] : ['93.184.215.14'],
+    });
+    try {
+      const userId = newUserId();
+      for (const url of ['http://localhost./hook', 'http://[::ffff:127.0.0.1]/hook', 'http://169.254.169.254/latest']) {
+        expect((await strict.request('POST', '/api/webhooks', { userId, body: { url } })).status).toBe(400);
+      }
+
+      // The name is only resolved when a delivery is made
+      const created = await strict.request('POST', '/api/webhooks', { userId, body: { url: 'http://internal.example.com/hook' } });
+      expect(created.status).toBe(200);
+      const tested = await strict.request('POST', `/api/webhooks/${created.body.webhook.id}/test`, { userId, body: {} });
+      expect(tested.body.success).toBe(false);
+      expect(tested.body.delivery).toMatchObject({ status: 'failed', responseStatus: null, error: 'url resolves to a private or local address' });
+    } finally {
+      await strict.close();
+    }
+  });
+});
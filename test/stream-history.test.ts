@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StreamHistory } from '../src/stream-history';
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-history-'));
+  filePath = path.join(dir, 'stream-history.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function readFile(): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+describe('StreamHistory', () => {
+  test('batches event writes and writes ended entries right away', () => {
+    const history = new StreamHistory({ filePath });
+    history.startEntry('user-a', 'session-1', 'unmanaged');
+    history.recordEvent('user-a', 'session-1', 'unmanaged', 'status', { status: 'active' });
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    history.close();
+    expect(readFile().users['user-a'][0].events.map((event: any) => event.type)).toEqual(['start-requested', 'status']);
+
+    history.endEntry('user-a', 'session-1', 'unmanaged', 'stopped');
+    expect(readFile().users['user-a'][0].finalStatus).toBe('stopped');
+  });
+
+  test('moves an unreadable file aside and starts empty', () => {
+    fs.writeFileSync(filePath, '{"users": {"user-a": [');
+
+    const history = new StreamHistory({ filePath });
+    expect(history.list('user-a').total).toBe(0);
+    expect(fs.readdirSync(dir).filter(name => name.startsWith('stream-history.json.corrupt-'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,306 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { TestApp, createTestApp, frontendToken, newUserId } from './support/test-app';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp();
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+describe('authentication', () => {
+  const routes: [string, string][] = [
+    ['GET', '/api/stream-stats'],
+    ['GET', '/api/stream-history'],
+    ['GET', '/api/stream-events'],
+    ['POST', '/api/start-stream'],
+    ['POST', '/api/stop-stream'],
+    ['POST', '/api/start-managed-stream'],
+    ['POST', '/api/stop-managed-stream'],
+  ];
+
+  for (const [method, path] of routes) {
+    test(`${method} ${path} requires a signed-in user`, async () => {
+      const response = await t.request(method, path, { body: method === 'GET' ? undefined : {} });
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+  }
+
+  test('GET /api/stream-info shows default info to anonymous users', async () => {
+    const response = await t.request('GET', '/api/stream-info');
+    expect(response.status).toBe(401);
+    expect(response.body.userId).toBeNull();
+    expect(response.body.streamStatus.status).toBe('stopped');
+  });
+
+  test('a token signed with another API key is rejected', async () => {
+    const response = await t.request('GET', '/api/stream-history', { headers: { Authorization: 'Bearer someone:not-a-valid-hash' } });
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('GET /api/stream-info', () => {
+  test('masks the stream key and reports idle streams for a new session', async () => {
+    const userId = newUserId();
+    await t.connect(userId);
+    const response = await t.request('GET', '/api/stream-info', { userId });
+    expect(response.status).toBe(200);
+    expect(response.body.userId).toBe(userId);
+    expect(response.body.rtmpUrl).not.toContain('streamKey');
+    expect(response.body.streamState).toEqual({ unmanaged: 'idle', managed: 'idle' });
+    expect(response.body.managedStreamStatus).toBeNull();
+  });
+
+  test('has no stream state without a session', async () => {
+    const response = await t.request('GET', '/api/stream-info', { userId: newUserId() });
+    expect(response.status).toBe(200);
+    expect(response.body.streamState).toBeNull();
+    expect(response.body.retry).toBeNull();
+  });
+});
+
+describe('POST /api/start-stream and /api/stop-stream', () => {
+  test('starts with the selected profile and stops once the glasses confirm', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    const start = await t.request('POST', '/api/start-stream', { userId, body: { rtmpUrl: 'rtmp://live.example.com/app/key-1', encodingProfileId: 'low-bandwidth-480p' } });
+    expect(start.status).toBe(200);
+    expect(start.body.success).toBe(true);
+    const [call] = session.callsTo('startStream');
+    expect(call.args[0].rtmpUrl).toBe('rtmp://live.example.com/app/key-1');
+    expect(call.args[0].video.frameRate).toBe(24);
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('starting');
+
+    session.emitStreamStatus('active');
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('live');
+
+    const stop = await t.request('POST', '/api/stop-stream', { userId, body: {} });
+    expect(stop.status).toBe(200);
+    expect(session.callsTo('stopStream')).toHaveLength(1);
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('stopping');
+
+    session.emitStreamStatus('stopped');
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('idle');
+  });
+
+  test('rejects a second start while the first is starting', async () => {
+    const userId = newUserId();
+    await t.connect(userId);
+    expect((await t.request('POST', '/api/start-stream', { userId, body: {} })).status).toBe(200);
+
+    const second = await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(second.status).toBe(409);
+    expect(second.body.streamState.unmanaged).toBe('starting');
+  });
+
+  test('rejects a start while the stream is live', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+
+    const again = await t.request('POST', '/api/start-stream', { userId, body: { encodingProfileId: 'low-bandwidth-480p' } });
+    expect(again.status).toBe(409);
+    expect(again.body.streamState.unmanaged).toBe('live');
+    expect(session.callsTo('startStream')).toHaveLength(1);
+  });
+
+  test('rejects an invalid RTMP URL, an unknown profile and an unknown destination', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    const badUrl = await t.request('POST', '/api/start-stream', { userId, body: { rtmpUrl: 'http://example.com/live' } });
+    expect(badUrl.status).toBe(400);
+    const badProfile = await t.request('POST', '/api/start-stream', { userId, body: { encodingProfileId: 'no-such-profile' } });
+    expect(badProfile.status).toBe(400);
+    const badDestination = await t.request('POST', '/api/start-stream', { userId, body: { destinationId: 'no-such-destination' } });
+    expect(badDestination.status).toBe(404);
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('idle');
+    expect(session.callsTo('startStream')).toHaveLength(0);
+  });
+
+  test('reports a camera failure and leaves the stream in error', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    session.failNext('startStream', new Error('camera busy'));
+
+    const response = await t.request('POST', '/api/start-stream', { userId, body: {} });
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('camera busy');
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('error');
+    expect(t.app.getStreamStatusForUser(userId)?.errorDetails).toBe('camera busy');
+  });
+
+  test('fails without an active session', async () => {
+    const userId = newUserId();
+    expect((await t.request('POST', '/api/start-stream', { userId, body: {} })).status).toBe(500);
+    expect((await t.request('POST', '/api/stop-stream', { userId, body: {} })).status).toBe(500);
+  });
+
+  test('stopping an idle stream settles immediately', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    const response = await t.request('POST', '/api/stop-stream', { userId, body: {} });
+    expect(response.status).toBe(200);
+    expect(session.callsTo('stopStream')).toHaveLength(1);
+    expect(t.app.getStreamPhasesForUser(userId)!.unmanaged).toBe('idle');
+  });
+});
+
+describe('POST /api/start-managed-stream and /api/stop-managed-stream', () => {
+  test('returns the playback URLs and follows the cloud status', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    const start = await t.request('POST', '/api/start-managed-stream', { userId, body: {} });
+    expect(start.status).toBe(200);
+    expect(start.body.urls.hlsUrl).toContain('.m3u8');
+    expect(t.app.getStreamPhasesForUser(userId)!.managed).toBe('starting');
+
+    session.emitManagedStreamStatus('active');
+    expect(t.app.getStreamPhasesForUser(userId)!.managed).toBe('live');
+    expect(t.app.getManagedStreamStatusForUser(userId)!.hlsUrl).toBe(start.body.urls.hlsUrl);
+
+    const stop = await t.request('POST', '/api/stop-managed-stream', { userId, body: {} });
+    expect(stop.status).toBe(200);
+    expect(t.app.getStreamPhasesForUser(userId)!.managed).toBe('stopping');
+
+    session.emitManagedStreamStatus('stopped');
+    expect(t.app.getStreamPhasesForUser(userId)!.managed).toBe('idle');
+    expect(t.app.getManagedStreamStatusForUser(userId)).toBeNull();
+  });
+
+  test('rejects a second start while the first is starting', async () => {
+    const userId = newUserId();
+    await t.connect(userId);
+    expect((await t.request('POST', '/api/start-managed-stream', { userId, body: {} })).status).toBe(200);
+    expect((await t.request('POST', '/api/start-managed-stream', { userId, body: {} })).status).toBe(409);
+  });
+
+  test('reports a cloud failure', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    session.failNext('startManagedStream', new Error('quota exceeded'));
+
+    const response = await t.request('POST', '/api/start-managed-stream', { userId, body: {} });
+    expect(response.status).toBe(500);
+    expect(response.body.message).toBe('quota exceeded');
+    expect(t.app.getStreamPhasesForUser(userId)!.managed).toBe('error');
+  });
+
+  test('a managed start waits for the unmanaged stream to finish starting', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+
+    const managed = t.request('POST', '/api/start-managed-stream', { userId, body: {} });
+    await Bun.sleep(50);
+    expect(session.callsTo('startManagedStream')).toHaveLength(0);
+
+    session.emitStreamStatus('active');
+    expect((await managed).status).toBe(200);
+    expect(session.callsTo('startManagedStream')).toHaveLength(1);
+  });
+});
+
+describe('GET /api/stream-stats', () => {
+  test('keeps the stats reported with status updates', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active', { stats: { bitrate: 1900000, fps: 30, droppedFrames: 0, duration: 2 } });
+    session.emitStreamStatus('active', { stats: { bitrate: 2000000, fps: 30, droppedFrames: 0, duration: 4 } });
+
+    const response = await t.request('GET', '/api/stream-stats', { userId });
+    expect(response.status).toBe(200);
+    expect(response.body.stats.samples.map((sample: any) => sample.bitrate)).toEqual([1900000, 2000000]);
+    expect(response.body.stats.target).toEqual({ bitrate: 2000000, frameRate: 30 });
+    // Still within the warm-up period
+    expect(response.body.stats.health.health).toBe('unknown');
+  });
+
+  test('warns on the glasses when the stream degrades', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active', { stats: { bitrate: 2000000, fps: 30, droppedFrames: 0, duration: 20 } });
+    session.emitStreamStatus('active', { stats: { bitrate: 300000, fps: 8, droppedFrames: 0, duration: 22 } });
+
+    const response = await t.request('GET', '/api/stream-stats', { userId });
+    expect(['degraded', 'failing']).toContain(response.body.stats.health.health);
+    expect(session.textWalls.some(text => text.startsWith('Stream failing') || text.startsWith('Stream degraded'))).toBe(true);
+  });
+
+  test('is null without a session', async () => {
+    const response = await t.request('GET', '/api/stream-stats', { userId: newUserId() });
+    expect(response.status).toBe(200);
+    expect(response.body.stats).toBeNull();
+  });
+});
+
+describe('GET /api/stream-history', () => {
+  test('lists finished streams newest first', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-stream', { userId, body: { rtmpUrl: 'rtmp://live.example.com/app/secret-key' } });
+    session.emitStreamStatus('active');
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+    session.emitStreamStatus('stopped');
+
+    const response = await t.request('GET', '/api/stream-history', { userId });
+    expect(response.status).toBe(200);
+    expect(response.body.total).toBe(1);
+    const [entry] = response.body.entries;
+    expect(entry.mode).toBe('unmanaged');
+    expect(entry.finalStatus).toBe('stopped');
+    expect(entry.destination).not.toContain('secret-key');
+  });
+
+  test('validates paging', async () => {
+    const userId = newUserId();
+    expect((await t.request('GET', '/api/stream-history?page=0', { userId })).status).toBe(400);
+    expect((await t.request('GET', '/api/stream-history?pageSize=1000', { userId })).status).toBe(400);
+    const response = await t.request('GET', '/api/stream-history?page=2&pageSize=5', { userId });
+    expect(response.status).toBe(200);
+    expect(response.body.page).toBe(2);
+    expect(response.body.entries).toEqual([]);
+  });
+});
+
+describe('GET /api/stream-events', () => {
+  test('sends a snapshot and then pushes status changes', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    const controller = new AbortController();
+    const response = await fetch(`${t.baseUrl}/api/stream-events`, {
+      headers: { Authorization: `Bearer ${frontendToken(userId)}` },
+      signal: controller.signal,
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    const readUntil = async (marker: string) => {
+      while (!received.includes(marker)) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error('Event stream closed');
+        received += decoder.decode(value);
+      }
+    };
+
+    await readUntil('event: snapshot');
+    await t.request('POST', '/api/start-stream', { userId, body: {} });
+    session.emitStreamStatus('active');
+    await readUntil('"status":"active"');
+    expect(received).toContain('event: stream-status');
+
+    controller.abort();
+  });
+});
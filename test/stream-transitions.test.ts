@@ -0,0 +1,254 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { FakeTpaSession } from './support/fake-session';
+import { TestApp, createTestApp, newUserId, waitFor } from './support/test-app';
+
+let t: TestApp;
+
+beforeAll(async () => {
+  t = await createTestApp();
+});
+
+afterAll(async () => {
+  await t.close();
+});
+
+function phases(userId: string) {
+  return t.app.getStreamPhasesForUser(userId);
+}
+
+async function connectLive(userId: string): Promise<FakeTpaSession> {
+  const session = await t.connect(userId);
+  await t.request('POST', '/api/start-stream', { userId, body: {} });
+  session.emitStreamStatus('active');
+  return session;
+}
+
+describe('stream errors and retries', () => {
+  test('an error while live schedules a retry that restarts the stream', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/retry-policy', { userId, body: { initialDelayMs: 500, jitterRatio: 0, maxAttempts: 3 } });
+    const session = await connectLive(userId);
+
+    session.emitStreamStatus('error', { errorDetails: 'network unreachable' });
+    expect(phases(userId)?.unmanaged).toBe('retrying');
+    const info = (await t.request('GET', '/api/stream-info', { userId })).body;
+    expect(info.retry).toMatchObject({ attempt: 0, lastError: 'network unreachable' });
+    expect(info.retry.nextAttemptAt).not.toBeNull();
+
+    await waitFor(() => session.callsTo('startStream').length === 2);
+    expect(phases(userId)?.unmanaged).toBe('starting');
+    session.emitStreamStatus('active');
+    expect(phases(userId)?.unmanaged).toBe('live');
+    expect(session.textWalls.at(-1)).toBe('Stream reconnected after 1 retries!');
+    expect(t.app.getRetryInfoForUser(userId)?.attempt).toBe(0);
+
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+  });
+
+  test('a timeout is handled like an error', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/retry-policy', { userId, body: { initialDelayMs: 500, jitterRatio: 0, maxAttempts: 3 } });
+    const session = await connectLive(userId);
+
+    session.emitStreamStatus('timeout');
+    expect(phases(userId)?.unmanaged).toBe('retrying');
+    expect(t.app.getRetryInfoForUser(userId)?.lastError).toBe('timeout');
+    await waitFor(() => session.callsTo('startStream').length === 2);
+
+    // Without retries, the history entry is closed
+    await t.request('POST', '/api/retry-policy', { userId, body: { enabled: false } });
+    session.emitStreamStatus('timeout');
+    expect(phases(userId)?.unmanaged).toBe('error');
+    const history = (await t.request('GET', '/api/stream-history', { userId })).body;
+    expect(history.entries[0]).toMatchObject({ mode: 'unmanaged', finalStatus: 'error', errorDetails: 'timeout' });
+  });
+
+  test('gives up once the retry policy is exhausted', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/retry-policy', { userId, body: { initialDelayMs: 500, jitterRatio: 0, maxAttempts: 1 } });
+    const session = await connectLive(userId);
+
+    session.emitStreamStatus('error', { errorDetails: 'network unreachable' });
+    await waitFor(() => session.callsTo('startStream').length === 2);
+    session.emitStreamStatus('error', { errorDetails: 'network unreachable' });
+
+    expect(phases(userId)?.unmanaged).toBe('error');
+    expect(t.app.getRetryInfoForUser(userId)?.gaveUp).toBe(true);
+    expect(session.textWalls.at(-1)).toContain('Not restarting: gave up after 1 retries');
+    const history = (await t.request('GET', '/api/stream-history', { userId })).body;
+    expect(history.entries[0]).toMatchObject({ mode: 'unmanaged', finalStatus: 'error' });
+  });
+
+  test('does not retry when retries are disabled', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/retry-policy', { userId, body: { enabled: false } });
+    const session = await connectLive(userId);
+
+    session.emitStreamStatus('error', { errorDetails: 'camera busy' });
+    expect(phases(userId)?.unmanaged).toBe('error');
+    expect(session.textWalls.at(-1)).toContain('automatic retry is disabled');
+  });
+
+  test('a managed stream error ends the managed stream', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+    await t.request('POST', '/api/start-managed-stream', { userId, body: {} });
+    session.emitManagedStreamStatus('active');
+    expect(phases(userId)?.managed).toBe('live');
+
+    session.emitManagedStreamStatus('error', { message: 'ingest failed' });
+    expect(phases(userId)?.managed).toBe('error');
+    expect(session.textWalls.at(-1)).toBe('Managed stream error: ingest failed');
+  });
+});
+
+describe('reconnects and disconnects', () => {
+  test('reconciles streams that changed while the glasses were away', async () => {
+    const userId = newUserId();
+    const session = await connectLive(userId);
+
+    // The unmanaged stream ended and a managed stream was started without any status update reaching the app
+    session.loseStream();
+    await session.camera.startManagedStream({});
+    session.emitConnected();
+
+    await waitFor(() => phases(userId)?.unmanaged === 'idle');
+    expect(phases(userId)?.managed).toBe('live');
+    expect(t.app.getManagedStreamStatusForUser(userId)?.hlsUrl).toContain('.m3u8');
+    expect(session.textWalls.some(text => text.startsWith('Connected. Not streaming'))).toBe(true);
+    await t.request('POST', '/api/stop-managed-stream', { userId, body: {} });
+  });
+
+  test('auto-starts on connect when the user asked for it', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/auto-start-settings', { userId, body: { autoStartPolicy: 'always' } });
+    const session = await t.connect(userId);
+
+    session.emitConnected();
+    await waitFor(() => session.callsTo('startStream').length === 1);
+    expect(phases(userId)?.unmanaged).toBe('starting');
+    expect(session.textWalls.some(text => text.includes('Auto-starting stream'))).toBe(true);
+
+    session.emitStreamStatus('active');
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+  });
+
+  test('a disconnect removes the session state but keeps settings', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/rtmp-url', { userId, body: { rtmpUrl: 'rtmp://live.example.com/app/kept' } });
+    const session = await connectLive(userId);
+
+    session.emitDisconnected('glasses off');
+    expect(phases(userId)).toBeNull();
+    expect(t.app.getActiveSessionSummaries().some(summary => summary.userId === userId)).toBe(false);
+    expect((await t.request('POST', '/api/stop-stream', { userId, body: {} })).status).toBe(500);
+    expect(t.app.getRtmpUrlForUser(userId)).toBe('rtmp://live.example.com/app/kept');
+
+    const history = (await t.request('GET', '/api/stream-history', { userId })).body;
+    expect(history.entries[0]).toMatchObject({ finalStatus: 'disconnected' });
+  });
+});
+
+describe('hands-free control', () => {
+  test('voice commands start and stop the stream', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    session.emitTranscription('Start streaming', false);
+    expect(session.callsTo('startStream')).toHaveLength(0);
+
+    session.emitTranscription('Okay, start streaming!');
+    await waitFor(() => session.callsTo('startStream').length === 1);
+    session.emitStreamStatus('active');
+
+    session.emitTranscription('stop the stream');
+    await waitFor(() => session.callsTo('stopStream').length === 1);
+    expect(session.textWalls.at(-1)).toBe('Stopping stream.');
+  });
+
+  test('switching destination by voice restarts a live stream', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/destinations', { userId, body: { name: 'Studio', rtmpUrl: 'rtmp://studio.example.com/live/key-a', makeActive: true } });
+    await t.request('POST', '/api/destinations', { userId, body: { name: 'Field', rtmpUrl: 'rtmp://field.example.com/live/key-b' } });
+    const session = await connectLive(userId);
+
+    session.emitTranscription('switch to field');
+    await waitFor(() => session.callsTo('stopStream').length === 1);
+    expect(session.callsTo('startStream')).toHaveLength(1);
+    session.emitStreamStatus('stopped');
+    await waitFor(() => session.callsTo('startStream').length === 2);
+    expect(session.callsTo('startStream')[1].args[0].rtmpUrl).toBe('rtmp://field.example.com/live/key-b');
+    expect(phases(userId)?.unmanaged).toBe('starting');
+    await waitFor(() => session.textWalls.at(-1) === 'Destination switched to "Field", stream restarting.');
+  });
+
+  test('voice commands are ignored when voice control is off', async () => {
+    const userId = newUserId();
+    await t.request('POST', '/api/glasses-control', { userId, body: { voice: false } });
+    const session = await t.connect(userId);
+
+    session.emitTranscription('go live');
+    await Bun.sleep(20);
+    expect(session.callsTo('startStream')).toHaveLength(0);
+  });
+
+  test('a long button press toggles the stream and a short press does nothing', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    session.emitButtonPress('short');
+    await Bun.sleep(20);
+    expect(session.callsTo('startStream')).toHaveLength(0);
+
+    session.emitButtonPress('long');
+    await waitFor(() => session.callsTo('startStream').length === 1);
+    session.emitStreamStatus('active');
+
+    session.emitButtonPress('long');
+    await waitFor(() => session.callsTo('stopStream').length === 1);
+  });
+
+  test('a double head-up gesture toggles the stream only once enabled', async () => {
+    const userId = newUserId();
+    const session = await t.connect(userId);
+
+    session.emitHeadPosition('up');
+    session.emitHeadPosition('up');
+    await Bun.sleep(20);
+    expect(session.callsTo('startStream')).toHaveLength(0);
+
+    await t.request('POST', '/api/glasses-control', { userId, body: { headGesture: true } });
+    session.emitHeadPosition('up');
+    session.emitHeadPosition('up');
+    await waitFor(() => session.callsTo('startStream').length === 1);
+    session.emitStreamStatus('active');
+    await t.request('POST', '/api/stop-stream', { userId, body: {} });
+  });
+});
+
+describe('battery policy', () => {
+  test('warns, steps down and stops as the battery drains', async () => {
+    const userId = newUserId();
+    const session = await connectLive(userId);
+
+    session.emitBattery(50);
+    await Bun.sleep(20);
+    expect((await t.request('GET', '/api/stream-info', { userId })).body.battery).toMatchObject({ level: 50, charging: false });
+
+    // Stepping down restarts the stream: it is stopped, and started again once the glasses report it stopped
+    session.emitBattery(20);
+    await waitFor(() => session.callsTo('stopStream').length === 1);
+    expect(session.callsTo('startStream')).toHaveLength(1);
+    session.emitStreamStatus('stopped');
+    await waitFor(() => session.callsTo('startStream').length === 2);
+    expect(session.calls.map(call => call.method)).toEqual(['startStream', 'stopStream', 'startStream']);
+    expect(session.textWalls.some(text => text.startsWith('Battery low (20%)'))).toBe(true);
+    expect(session.callsTo('startStream')[1].args[0].video).toMatchObject({ frameRate: 24 });
+    session.emitStreamStatus('active');
+    expect(phases(userId)?.unmanaged).toBe('live');
+
+    session.emitBattery(5);
+    await waitFor(() => session.callsTo('stopStream').length === 2);
+    expect(session.textWalls.some(text => text.startsWith('Battery critical (5%)'))).toBe(true);
+  });
+});
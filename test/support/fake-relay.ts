@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { RecordingRelay, RelayConnection, RelayOptions } from '../../src/recording-relay';
+
+/**
+ * One ingest of the fake relay. Nothing listens; the test writes segments as if the glasses were publishing.
+ */
+export class FakeRelayConnection implements RelayConnection {
+  readonly ingestUrl: string;
+  readonly ended: Promise<Error | null>;
+  stopped = false;
+  private nextSegmentNumber: number;
+  private resolveEnded!: (error: Error | null) => void;
+
+  constructor(readonly options: RelayOptions, index: number) {
+    this.ingestUrl = `rtmp://relay.test:${1936 + index}/live/key-${index}`;
+    this.nextSegmentNumber = options.firstSegmentNumber;
+    this.ended = new Promise(resolve => { this.resolveEnded = resolve; });
+  }
+
+  /**
+   * Writes the next segment file
+   * @param sizeBytes - Size of the segment
+   * @returns The segment's contents
+   */
+  writeSegment(sizeBytes: number): Buffer {
+    const number = this.nextSegmentNumber++;
+    const data = Buffer.alloc(sizeBytes, number % 256);
+    fs.writeFileSync(path.join(this.options.outputDir, `segment-${String(number).padStart(5, '0')}.ts`), data);
+    return data;
+  }
+
+  // The relay failed on its own, like ffmpeg exiting with an error
+  fail(error: Error): void {
+    this.resolveEnded(error);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.resolveEnded(null);
+  }
+}
+
+/**
+ * Stand-in for the ffmpeg relay that records every ingest it opens
+ */
+export class FakeRecordingRelay implements RecordingRelay {
+  // Every ingest opened, oldest first
+  readonly connections: FakeRelayConnection[] = [];
+  private failure: Error | null = null;
+
+  /**
+   * Makes the next open() fail
+   * @param error - The error to throw
+   */
+  failNext(error: Error): void {
+    this.failure = error;
+  }
+
+  // The most recently opened ingest
+  latest(): FakeRelayConnection {
+    return this.connections[this.connections.length - 1];
+  }
+
+  async open(options: RelayOptions): Promise<FakeRelayConnection> {
+    if (this.failure) {
+      const error = this.failure;
+      this.failure = null;
+      throw error;
+    }
+    const connection = new FakeRelayConnection(options, this.connections.length);
+    this.connections.push(connection);
+    return connection;
+  }
+}
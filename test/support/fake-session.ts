@@ -0,0 +1,244 @@
+import {
+  ButtonPress,
+  GlassesBatteryUpdate,
+  GlassesToCloudMessageType,
+  CloudToAppMessageType,
+  HeadPosition,
+  ManagedStreamStatus,
+  PhotoData,
+  RtmpStreamStatus,
+  TranscriptionData,
+} from '@mentra/sdk';
+import { StreamingSession } from '../../src/streaming-session';
+
+type Handler = (data: any) => void;
+
+// One call made by the app to the fake camera
+export interface CameraCall {
+  method: string;
+  args: any[];
+}
+
+/**
+ * In-memory stand-in for a TpaSession.
+ * Camera calls are recorded and succeed unless a failure is queued with failNext(), or a stream is started while one is
+ * running, which TpaSession rejects too; status, connection and input events are emitted by the test through the emit* methods.
+ */
+export class FakeTpaSession implements StreamingSession {
+  // Every camera call, oldest first
+  readonly calls: CameraCall[] = [];
+  // Every text wall shown on the glasses, oldest first
+  readonly textWalls: string[] = [];
+
+  private handlers: Map<string, Set<Handler>> = new Map();
+  private failures: Map<string, Error> = new Map();
+  private holds: Map<string, Promise<void>> = new Map();
+  private streaming = false;
+  private lastStreamStatus: RtmpStreamStatus | undefined;
+  private managedUrls: { streamId: string; hlsUrl: string; dashUrl: string; webrtcUrl: string } | undefined;
+
+  constructor(readonly sessionId: string, readonly userId: string) {}
+
+  readonly camera: StreamingSession['camera'] = {
+    startStream: async (options: any) => {
+      this.record('startStream', options);
+      // Like TpaSession, a stream is not restarted in place until the glasses report the previous one ended
+      if (this.streaming) {
+        throw new Error('Already streaming. Stop the current stream before starting a new one.');
+      }
+      await this.waitIfHeld('startStream');
+      this.streaming = true;
+    },
+    stopStream: async () => {
+      this.record('stopStream');
+      await this.waitIfHeld('stopStream');
+    },
+    onStreamStatus: (handler: Handler) => this.on('streamStatus', handler),
+    isCurrentlyStreaming: () => this.streaming,
+    getStreamStatus: () => this.lastStreamStatus,
+    startManagedStream: async (options?: any) => {
+      this.record('startManagedStream', options);
+      await this.waitIfHeld('startManagedStream');
+      const streamId = `managed-${this.sessionId}-${this.calls.length}`;
+      this.managedUrls = {
+        streamId,
+        hlsUrl: `https://cdn.example.com/${streamId}/index.m3u8`,
+        dashUrl: `https://cdn.example.com/${streamId}/manifest.mpd`,
+        webrtcUrl: `https://cdn.example.com/${streamId}/whep`,
+      };
+      return { ...this.managedUrls };
+    },
+    stopManagedStream: async () => {
+      this.record('stopManagedStream');
+      this.managedUrls = undefined;
+    },
+    onManagedStreamStatus: (handler: Handler) => this.on('managedStreamStatus', handler),
+    isManagedStreamActive: () => this.managedUrls !== undefined,
+    getManagedStreamUrls: () => this.managedUrls ? { ...this.managedUrls } : undefined,
+    requestPhoto: async (options?: any): Promise<PhotoData> => {
+      this.record('requestPhoto', options);
+      return {
+        buffer: Buffer.alloc(0),
+        mimeType: 'image/jpeg',
+        filename: 'photo.jpg',
+        requestId: `photo-${this.calls.length}`,
+        size: 0,
+        timestamp: new Date(),
+      };
+    },
+  };
+
+  readonly layouts: StreamingSession['layouts'] = {
+    showTextWall: (text: string) => {
+      this.textWalls.push(text);
+    },
+  };
+
+  readonly events: StreamingSession['events'] = {
+    onConnected: (handler: Handler) => this.on('connected', handler),
+    onDisconnected: (handler: Handler) => this.on('disconnected', handler),
+    onError: (handler: Handler) => this.on('error', handler),
+    onTranscription: (handler: Handler) => this.on('transcription', handler),
+    onButtonPress: (handler: Handler) => this.on('buttonPress', handler),
+    onHeadPosition: (handler: Handler) => this.on('headPosition', handler),
+    onPhoneNotifications: (handler: Handler) => this.on('phoneNotifications', handler),
+    onGlassesBattery: (handler: Handler) => this.on('glassesBattery', handler),
+  };
+
+  /**
+   * Makes the next call of a camera method reject
+   * @param method - Camera method name, e.g. "startStream"
+   * @param error - The error to reject with
+   */
+  failNext(method: string, error: Error = new Error(`${method} failed`)): void {
+    this.failures.set(method, error);
+  }
+
+  /**
+   * Keeps the next call of a camera method pending until released, to act while a request is in flight
+   * @param method - Camera method name, e.g. "startStream"
+   * @returns Function that lets the held call complete
+   */
+  holdNext(method: string): () => void {
+    let release!: () => void;
+    this.holds.set(method, new Promise(resolve => { release = resolve; }));
+    return release;
+  }
+
+  // Calls of one camera method, oldest first
+  callsTo(method: string): CameraCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  // Number of handlers currently registered for an event, e.g. "streamStatus"
+  handlerCount(event: string): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Reports an unmanaged stream status as the glasses would
+   * @param status - Status name, e.g. "active"
+   * @param extra - Other status fields, e.g. errorDetails or stats
+   */
+  emitStreamStatus(status: RtmpStreamStatus['status'], extra: Partial<RtmpStreamStatus> = {}): void {
+    const message: RtmpStreamStatus = { type: GlassesToCloudMessageType.RTMP_STREAM_STATUS, status, timestamp: new Date(), ...extra };
+    this.lastStreamStatus = message;
+    if (['initializing', 'connecting', 'reconnecting', 'active', 'streaming', 'reconnected'].includes(status)) {
+      this.streaming = true;
+    } else if (['stopped', 'error', 'timeout'].includes(status)) {
+      // The only statuses TpaSession treats as the end of a stream
+      this.streaming = false;
+    }
+    this.emit('streamStatus', message);
+  }
+
+  /**
+   * Reports a managed stream status as the cloud would
+   * @param status - Status name, e.g. "active"
+   * @param extra - Other status fields, e.g. message
+   */
+  emitManagedStreamStatus(status: ManagedStreamStatus['status'], extra: Partial<ManagedStreamStatus> = {}): void {
+    if (status === 'stopped' || status === 'error') {
+      this.managedUrls = undefined;
+    }
+    this.emit('managedStreamStatus', { type: CloudToAppMessageType.MANAGED_STREAM_STATUS, status, timestamp: new Date(), ...this.managedUrls, ...extra });
+  }
+
+  // Ends the unmanaged stream without a status update, as when updates are lost while the glasses are away
+  loseStream(): void {
+    this.streaming = false;
+  }
+
+  // The glasses connected, or reconnected after a drop
+  emitConnected(): void {
+    this.emit('connected', undefined);
+  }
+
+  /**
+   * The session ended
+   * @param reason - Disconnect reason passed to handlers
+   */
+  emitDisconnected(reason: string = 'test disconnect'): void {
+    this.emit('disconnected', { message: reason, code: 1000, reason, wasClean: true });
+  }
+
+  emitError(error: Error): void {
+    this.emit('error', error);
+  }
+
+  emitTranscription(text: string, isFinal: boolean = true): void {
+    const data: Partial<TranscriptionData> = { text, isFinal, startTime: Date.now(), endTime: Date.now() };
+    this.emit('transcription', data);
+  }
+
+  emitButtonPress(pressType: ButtonPress['pressType'] = 'long'): void {
+    const data: Partial<ButtonPress> = { buttonId: 'camera', pressType, timestamp: new Date() };
+    this.emit('buttonPress', data);
+  }
+
+  emitHeadPosition(position: HeadPosition['position']): void {
+    const data: Partial<HeadPosition> = { position, timestamp: new Date() };
+    this.emit('headPosition', data);
+  }
+
+  emitBattery(level: number, charging: boolean = false): void {
+    const data: Partial<GlassesBatteryUpdate> = { level, charging, timestamp: new Date() };
+    this.emit('glassesBattery', data);
+  }
+
+  private on(event: string, handler: Handler): () => void {
+    let eventHandlers = this.handlers.get(event);
+    if (!eventHandlers) {
+      eventHandlers = new Set();
+      this.handlers.set(event, eventHandlers);
+    }
+    eventHandlers.add(handler);
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+    };
+  }
+
+  private emit(event: string, data: any): void {
+    for (const handler of Array.from(this.handlers.get(event) ?? [])) {
+      handler(data);
+    }
+  }
+
+  private async waitIfHeld(method: string): Promise<void> {
+    const hold = this.holds.get(method);
+    if (hold) {
+      this.holds.delete(method);
+      await hold;
+    }
+  }
+
+  // Records a camera call and throws the failure queued for it, if any
+  private record(method: string, ...args: any[]): void {
+    this.calls.push({ method, args });
+    const failure = this.failures.get(method);
+    if (failure) {
+      this.failures.delete(method);
+      throw failure;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { AppDependencies, SimpleRtmpStreamingApp } from '../../src/app';
+import { AppConfig, DEFAULT_RTMP_URL } from '../../src/config';
+import { InMemorySettingsStore } from '../../src/settings-store';
+import { StreamHistory } from '../../src/stream-history';
+import { AuditLog } from '../../src/audit-log';
+import { ShareLinkStore } from '../../src/share-links';
+import { WebhookStore } from '../../src/webhooks';
+import { RecordingStore } from '../../src/recordings';
+import { FakeTpaSession } from './fake-session';
+import { FakeRecordingRelay } from './fake-relay';
+
+export const TEST_ADMIN_TOKEN = 'test-admin-token';
+
+export const TEST_CONFIG: AppConfig = {
+  packageName: 'com.example.rtmp-test',
+  apiKey: 'test-api-key',
+  port: 0,
+  publicDir: false,
+  defaultRtmpUrl: DEFAULT_RTMP_URL,
+  adminToken: TEST_ADMIN_TOKEN,
+  metricsToken: null,
+  // Test webhooks are received on localhost
+  allowPrivateWebhookUrls: true,
+};
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface RequestOptions {
+  // Signs the request in as this user
+  userId?: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A SimpleRtmpStreamingApp with in-memory stores and fake sessions, listening on a free local port
+ */
+export interface TestApp {
+  app: SimpleRtmpStreamingApp;
+  baseUrl: string;
+  // The latest fake session opened for each user
+  sessions: Map<string, FakeTpaSession>;
+  relay: FakeRecordingRelay;
+  // Temporary directory holding the app's recordings, removed on close()
+  recordingsDir: string;
+  /**
+   * Opens a fake session for a user, as if MentraOS Cloud had started the app on their glasses
+   * @param userId - The user the session belongs to
+   * @param sessionId - ID of the session, to reconnect one that is already open; a new ID by default
+   */
+  connect(userId: string, sessionId?: string): Promise<FakeTpaSession>;
+  request(method: string, path: string, options?: RequestOptions): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+/**
+ * Builds the bearer token the SDK accepts from the webview frontend
+ * @param userId - The user to sign in as
+ * @param apiKey - The app's API key
+ */
+export function frontendToken(userId: string, apiKey: string = TEST_CONFIG.apiKey): string {
+  const hashedApiKey = createHash('sha256').update(apiKey).digest('hex');
+  return `${userId}:${createHash('sha256').update(userId).update(hashedApiKey).digest('hex')}`;
+}
+
+let sessionCounter = 0;
+
+/**
+ * Starts an app for a test file; no network access is needed
+ * @param overrides - Config fields to change from TEST_CONFIG
+ * @param dependencies - Stores or relay to use instead of the test defaults
+ */
+export async function createTestApp(overrides: Partial<AppConfig> = {}, dependencies: AppDependencies = {}): Promise<TestApp> {
+  const sessions = new Map<string, FakeTpaSession>();
+  const relay = new FakeRecordingRelay();
+  const recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtmp-recordings-'));
+  const app = new SimpleRtmpStreamingApp({ ...TEST_CONFIG, ...overrides }, {
+    settingsStore: new InMemorySettingsStore(),
+    streamHistory: new StreamHistory(),
+    auditLog: new AuditLog(),
+    shareLinks: new ShareLinkStore(),
+    webhookStore: new WebhookStore(),
+    recordingStore: new RecordingStore(recordingsDir),
+    recordingRelay: relay,
+    sessionFactory: (sessionId, userId) => {
+      const session = new FakeTpaSession(sessionId, userId);
+      sessions.set(userId, session);
+      return session;
+    },
+    ...dependencies,
+  });
+
+  // Listen without AppServer.start(), which checks for SDK updates online and exits the process on stop()
+  const server: Server = await new Promise(resolve => {
+    const listening = app.getExpressApp().listen(0, () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    app,
+    baseUrl,
+    sessions,
+    relay,
+    recordingsDir,
+    async connect(userId: string, sessionId: string = `session-${++sessionCounter}`) {
+      await app.openSession(sessionId, userId);
+      return sessions.get(userId)!;
+    },
+    async request(method: string, path: string, options: RequestOptions = {}) {
+      const headers: Record<string, string> = { ...options.headers };
+      if (options.userId) {
+        headers['Authorization'] = `Bearer ${frontendToken(options.userId)}`;
+      }
+      if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+      }
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+      const text = await response.text();
+      let body: any = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON, e.g. /metrics
+      }
+      return { status: response.status, headers: response.headers, body };
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      fs.rmSync(recordingsDir, { recursive: true, force: true });
+    },
+  };
+}
+
+let userCounter = 0;
+
+/**
+ * A user ID no other test has used
+ * @param prefix - Readable part of the ID
+ */
+export function newUserId(prefix: string = 'user'): string {
+  return `${prefix}-${++userCounter}@example.com`;
+}
+
+/**
+ * Waits until a condition holds, for effects that happen after an event handler returns
+ * @param condition - Checked every few milliseconds
+ * @param timeoutMs - How long to wait before failing
+ */
+export async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}